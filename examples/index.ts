@@ -14,6 +14,7 @@ if (command === 'whatsapp-video-test') {
         await import('./full')
         await import('./circle')
         await import('./rounded')
+        await import('./star')
         await import('./whatsapp-compliance')
     })().catch(console.error)
 }
@@ -0,0 +1,193 @@
+import { fromBuffer } from 'file-type'
+import { cpus } from 'os'
+import { extname, join } from 'path'
+import { Readable } from 'stream'
+import { Worker } from 'worker_threads'
+import { EncodeError, StickerError } from './Errors'
+import { cacheBudget, cacheKey, readCache, resolveCache, writeCache } from './Cache'
+import { getFfmpegPaths } from './Environment'
+import { normalizeLogger } from './Logger'
+import { resolveInput } from './Resolvers'
+import { Sticker } from './Sticker'
+import { BuildContext } from './internal/context'
+import { deserializeError, IWorkerJob, WORKER_DATA, WorkerMessage } from './internal/worker'
+import { IBatchItem, IBatchOptions, IBatchResult, ILogger, IStickerCache, StickerInput } from './Types'
+
+const WORKER_FILE = join(__dirname, 'internal', `worker${extname(__filename)}`)
+
+type WorkerResult = Extract<WorkerMessage, { type: 'result' }>
+
+const isItem = (item: StickerInput | IBatchItem): item is IBatchItem =>
+    typeof item === 'object' && !Buffer.isBuffer(item) && !(item instanceof Readable) && 'input' in item
+
+const toStickerError = (error: unknown): StickerError =>
+    error instanceof StickerError
+        ? error
+        : new EncodeError(String((error as Error)?.message ?? error), undefined, error)
+
+/**
+ * Worker thread converting stickers one at a time. The thread is started on the first conversion
+ * and started again when it crashes
+ */
+class StickerWorker {
+    private worker?: Worker
+
+    private start = (): Worker =>
+        new Worker(WORKER_FILE, {
+            workerData: WORKER_DATA,
+            // Running from the sources (tests), which the main thread has type-checked already
+            execArgv: extname(WORKER_FILE) === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : undefined
+        })
+
+    /**
+     * Converts a sticker
+     * @param job - The sticker
+     * @param onMessage - Receives the progress and log messages
+     * @param context - Context of the conversion, aborting it aborts the conversion in the thread
+     */
+    public convert = (
+        job: IWorkerJob,
+        onMessage: (message: WorkerMessage) => void,
+        context: BuildContext
+    ): Promise<WorkerResult> =>
+        new Promise<WorkerResult>((resolve, reject) => {
+            const worker = this.worker ?? (this.worker = this.start())
+            // The result is still awaited after an abort: the thread must be done before the next conversion
+            const detach = context.onAbort(() => worker.postMessage('abort'))
+            const done = () => {
+                detach()
+                worker.off('message', listener).off('error', fail).off('exit', exit)
+            }
+            const listener = (message: WorkerMessage) => {
+                if (message.type === 'result') {
+                    done()
+                    resolve(message)
+                } else if (message.type === 'error') {
+                    done()
+                    reject(deserializeError(message.error))
+                } else onMessage(message)
+            }
+            const fail = (error: Error) => {
+                done()
+                this.worker = undefined
+                void worker.terminate()
+                reject(new EncodeError(`The worker thread failed: ${error.message}`, undefined, error))
+            }
+            const exit = (code: number) => fail(new Error(`exited with code ${code}`))
+            worker.on('message', listener).on('error', fail).on('exit', exit)
+            worker.postMessage(job)
+        })
+
+    /**
+     * Stops the thread
+     */
+    public terminate = async (): Promise<void> => {
+        await this.worker?.terminate()
+        this.worker = undefined
+    }
+}
+
+/**
+ * Converts many stickers, at most `concurrency` at a time, optionally in worker threads.
+ * A failed sticker does not stop the others: every input gets a result, with either its data or its error
+ * @param {(StickerInput|IBatchItem)[]} items - Inputs, or inputs with their own options
+ * @param {IBatchOptions} [options] - Shared sticker options, concurrency, worker threads, abort signal and callbacks
+ * @returns {Promise<IBatchResult[]>} The results, in the order of the items
+ * @example
+ * const results = await createStickers(
+ *     ['./1.png', './2.gif', { input: './3.mp4', options: { type: StickerTypes.CROPPED } }],
+ *     { defaults: { pack: 'My Pack', author: 'Me' }, concurrency: 2, workers: true }
+ * )
+ * for (const { index, data, error } of results) if (error) console.log(index, error.code)
+ */
+export const createStickers = async (
+    items: (StickerInput | IBatchItem)[],
+    options: IBatchOptions = {}
+): Promise<IBatchResult[]> => {
+    const { defaults = {}, concurrency = cpus().length, workers = false, signal, timeout, tempDir } = options
+    const { logger, cache, onProgress, onResult } = options
+    const log = normalizeLogger(logger)
+    const store = resolveCache(cache)
+
+    const convertHere = async (
+        index: number,
+        input: StickerInput,
+        stickerOptions: IBatchItem['options'],
+        stickerCache: IStickerCache | false | undefined = cache
+    ) => {
+        const sticker = new Sticker(input, stickerOptions)
+        const data = await sticker.build({
+            signal,
+            timeout,
+            tempDir,
+            cache: stickerCache,
+            logger: log,
+            onProgress: onProgress && ((event) => onProgress(index, event))
+        })
+        return { data, encoding: sticker.encoding, videoEncoding: sticker.videoEncoding }
+    }
+
+    const convertInWorker = async (
+        worker: StickerWorker,
+        index: number,
+        input: StickerInput,
+        stickerOptions: IBatchItem['options'] = {}
+    ) => {
+        // Inputs are read here: streams and registered resolvers only exist in this thread
+        const context = new BuildContext({ signal, timeout, logger: log })
+        try {
+            context.check()
+            const data = await resolveInput(input, stickerOptions.fetch, context)
+            // Keyed like `Sticker.build()` does, with the defaults of the constructor
+            const { metadata } = new Sticker(data, { ...stickerOptions })
+            const key = store && cacheKey(data, metadata)
+            const budget = store ? cacheBudget(metadata, (await fromBuffer(data))?.mime ?? '') : undefined
+            const hit = store && key ? await readCache(store, key, log, budget) : undefined
+            // Only the metadata is left to write, no need for a thread
+            if (hit) return convertHere(index, data, stickerOptions, { get: () => hit, set: () => undefined })
+            const onMessage = (message: WorkerMessage) => {
+                if (message.type === 'progress') onProgress?.(index, message.event)
+                else if (message.type === 'log')
+                    (log[message.level] as Required<ILogger>['info'])(message.message, message.fields)
+            }
+            const job = { data, options: stickerOptions, tempDir, cache: Boolean(key), paths: getFfmpegPaths() }
+            const { data: output, image, encoding, videoEncoding } = await worker.convert(job, onMessage, context)
+            if (store && key && image)
+                await writeCache(store, key, Buffer.from(image.buffer, image.byteOffset, image.byteLength), log)
+            return { data: Buffer.from(output.buffer, output.byteOffset, output.byteLength), encoding, videoEncoding }
+        } catch (error) {
+            // Reports why the conversion was aborted (timeout or signal) rather than how the thread stopped
+            context.check()
+            throw error
+        } finally {
+            await context.dispose()
+        }
+    }
+
+    const results: IBatchResult[] = new Array(items.length)
+    let next = 0
+    const lane = async () => {
+        const worker = workers ? new StickerWorker() : undefined
+        try {
+            while (next < items.length) {
+                const index = next++
+                const item = items[index]
+                const [input, itemOptions] = isItem(item) ? [item.input, item.options] : [item, undefined]
+                const stickerOptions = { ...defaults, ...itemOptions }
+                try {
+                    const converted = worker
+                        ? await convertInWorker(worker, index, input, stickerOptions)
+                        : await convertHere(index, input, stickerOptions)
+                    results[index] = { index, ...converted }
+                } catch (error) {
+                    results[index] = { index, error: toStickerError(error) }
+                }
+                onResult?.(results[index])
+            }
+        } finally {
+            await worker?.terminate()
+        }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane))
+    return results
+}
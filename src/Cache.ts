@@ -0,0 +1,254 @@
+import { createHash } from 'crypto'
+import { ensureDir, readdir, readFile, remove, rename, stat, utimes, writeFile } from 'fs-extra'
+import { join } from 'path'
+import { sizeLimit } from './internal/convert'
+import Exif from './internal/Metadata/Exif'
+import { ICacheOptions, ILogger, IStickerCache, IStickerOptions } from './Types'
+
+/** Bumped when the output of the converter changes, so that older entries are not used */
+const CACHE_VERSION = 3
+
+/** Options written in the metadata, which is not cached, or that do not change the image */
+const IGNORED_OPTIONS: (keyof IStickerOptions)[] = [
+    'pack',
+    'author',
+    'id',
+    'categories',
+    'androidAppStoreLink',
+    'iosAppStoreLink',
+    'isAvatar',
+    'isFirstParty',
+    'isAi',
+    'accessibilityText',
+    'extraMetadata',
+    'deterministic',
+    'fetch'
+]
+
+let current: IStickerCache | undefined
+
+/** Buffers are replaced by their hash and object keys sorted, so that equal options give equal JSON */
+const normalize = (value: unknown): unknown => {
+    if (Buffer.isBuffer(value)) return `sha256:${createHash('sha256').update(value).digest('hex')}`
+    if (Array.isArray(value)) return value.map(normalize)
+    if (value && typeof value === 'object')
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([, field]) => field !== undefined)
+                .sort(([a], [b]) => (a < b ? -1 : 1))
+                .map(([key, field]) => [key, normalize(field)])
+        )
+    return value
+}
+
+/**
+ * Key of a conversion: hash of the input and of the options that change the image
+ * @param data - The input
+ * @param options - Sticker options
+ */
+export const cacheKey = (data: Buffer, options: Partial<IStickerOptions>): string => {
+    const rest = Object.fromEntries(
+        Object.entries(options).filter(([key]) => !IGNORED_OPTIONS.includes(key as keyof IStickerOptions))
+    )
+    return createHash('sha256')
+        .update(`${CACHE_VERSION}\n${JSON.stringify(normalize(rest))}\n`)
+        .update(data)
+        .digest('hex')
+}
+
+/**
+ * Largest cached image that still fits the size limit (`targetSize`, or any animation) once the metadata is added
+ * @param options - Sticker options, with the metadata of the build
+ * @param mime - MIME type of the input
+ */
+export const cacheBudget = (options: Partial<IStickerOptions>, mime: string): number => {
+    const limit = sizeLimit(mime, options)
+    return limit ? limit - Exif.size(options) : Infinity
+}
+
+/**
+ * Cache of a build: its own, none when `false`, else the one set with `setCache`
+ */
+export const resolveCache = (cache?: IStickerCache | false): IStickerCache | undefined =>
+    cache === false ? undefined : cache ?? current
+
+/**
+ * Reads a cached conversion. A failing cache, and an image over `budget` bytes, are logged and treated as a miss
+ */
+export const readCache = async (
+    cache: IStickerCache,
+    key: string,
+    log: Required<ILogger>,
+    budget = Infinity
+): Promise<Buffer | undefined> => {
+    try {
+        const image = await cache.get(key)
+        if (!image || image.length <= budget) return image
+        log.debug('The cached conversion leaves no room for the metadata', { key, size: image.length, budget })
+        return undefined
+    } catch (error) {
+        log.warn('Could not read the sticker cache', { key, error: (error as Error).message })
+        return undefined
+    }
+}
+
+/**
+ * Stores a conversion. A failing cache is logged, the sticker is still returned
+ */
+export const writeCache = async (
+    cache: IStickerCache,
+    key: string,
+    data: Buffer,
+    log: Required<ILogger>
+): Promise<void> => {
+    try {
+        await cache.set(key, data)
+    } catch (error) {
+        log.warn('Could not write the sticker cache', { key, error: (error as Error).message })
+    }
+}
+
+/**
+ * Sets the cache used by every conversion that does not get its own `cache` build option
+ * @param {IStickerCache} [cache] - The cache, or undefined to stop caching
+ * @example
+ * setCache(new MemoryCache({ maxBytes: 100 * 1024 * 1024, ttl: 60 * 60 * 1000 }))
+ */
+export const setCache = (cache?: IStickerCache): void => {
+    current = cache
+}
+
+/**
+ * Cache keeping the stickers in memory, evicting the least recently used ones
+ */
+export class MemoryCache implements IStickerCache {
+    private entries = new Map<string, { data: Buffer; expires: number }>()
+    private size = 0
+
+    /**
+     * @param {ICacheOptions} [options] - Limits (`maxBytes` defaults to 64 MB)
+     */
+    constructor(private options: ICacheOptions = {}) {}
+
+    /** Total size of the kept stickers in bytes */
+    public get bytes(): number {
+        return this.size
+    }
+
+    public get = (key: string): Buffer | undefined => {
+        const entry = this.entries.get(key)
+        if (!entry) return undefined
+        this.delete(key)
+        if (entry.expires <= Date.now()) return undefined
+        // Maps iterate in insertion order: the entry becomes the most recently used
+        this.entries.set(key, entry)
+        this.size += entry.data.length
+        return entry.data
+    }
+
+    public set = (key: string, data: Buffer): void => {
+        const { maxBytes = 64 * 1024 * 1024, maxEntries = Infinity, ttl = Infinity } = this.options
+        this.delete(key)
+        if (data.length > maxBytes) return
+        this.entries.set(key, { data, expires: Date.now() + ttl })
+        this.size += data.length
+        for (const [oldest] of this.entries) {
+            if (this.size <= maxBytes && this.entries.size <= maxEntries) break
+            this.delete(oldest)
+        }
+    }
+
+    /**
+     * Removes a sticker
+     */
+    public delete = (key: string): void => {
+        const entry = this.entries.get(key)
+        if (!entry) return
+        this.entries.delete(key)
+        this.size -= entry.data.length
+    }
+
+    /**
+     * Removes every sticker
+     */
+    public clear = (): void => {
+        this.entries.clear()
+        this.size = 0
+    }
+}
+
+/**
+ * Cache keeping the stickers as files of a directory, which can be shared by processes.
+ * The modification time of a file is when it was stored and its access time when it was last used
+ */
+export class DiskCache implements IStickerCache {
+    /**
+     * @param {string} directory - Directory of the files, created when missing
+     * @param {ICacheOptions} [options] - Limits (`maxBytes` defaults to 512 MB)
+     */
+    constructor(private directory: string, private options: ICacheOptions = {}) {}
+
+    private file = (key: string): string => join(this.directory, `${key}.webp`)
+
+    public get = async (key: string): Promise<Buffer | undefined> => {
+        const { ttl = Infinity } = this.options
+        const file = this.file(key)
+        try {
+            const { mtime } = await stat(file)
+            if (mtime.getTime() + ttl <= Date.now()) {
+                await remove(file)
+                return undefined
+            }
+            const data = await readFile(file)
+            await utimes(file, new Date(), mtime)
+            return data
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+            throw error
+        }
+    }
+
+    public set = async (key: string, data: Buffer): Promise<void> => {
+        await ensureDir(this.directory)
+        // Written aside then renamed, so that other processes never read a partial file
+        const temp = `${this.file(key)}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`
+        await writeFile(temp, data)
+        await rename(temp, this.file(key))
+        await this.evict()
+    }
+
+    /**
+     * Removes the expired stickers, then the least recently used ones until the limits are met
+     */
+    public evict = async (): Promise<void> => {
+        const { maxBytes = 512 * 1024 * 1024, maxEntries = Infinity, ttl = Infinity } = this.options
+        const names = (await readdir(this.directory)).filter((name) => name.endsWith('.webp'))
+        const entries: { file: string; size: number; atime: number; mtime: number }[] = []
+        for (const name of names) {
+            const file = join(this.directory, name)
+            // Removed by another process in the meantime
+            const stats = await stat(file).catch(() => undefined)
+            if (stats) entries.push({ file, size: stats.size, atime: stats.atimeMs, mtime: stats.mtimeMs })
+        }
+        entries.sort((a, b) => a.atime - b.atime)
+        let size = entries.reduce((total, entry) => total + entry.size, 0)
+        let count = entries.length
+        for (const entry of entries) {
+            const expired = entry.mtime + ttl <= Date.now()
+            if (!expired && size <= maxBytes && count <= maxEntries) continue
+            await remove(entry.file)
+            size -= entry.size
+            count--
+        }
+    }
+
+    /**
+     * Removes every sticker
+     */
+    public clear = async (): Promise<void> => {
+        const names = await readdir(this.directory).catch(() => [] as string[])
+        await Promise.all(
+            names.filter((name) => name.endsWith('.webp')).map((name) => remove(join(this.directory, name)))
+        )
+    }
+}
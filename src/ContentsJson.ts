@@ -0,0 +1,83 @@
+import { ensureDir, writeFile, writeJSON } from 'fs-extra'
+import { join } from 'path'
+import { IBuiltStickerPack, IContentsJson, IContentsJsonOptions, IContentsJsonPack } from './Types'
+import { packIdError, WHATSAPP_LIMITS, WhatsAppValidator } from './internal/WhatsAppValidation'
+import { PackError } from './Errors'
+
+const TRAY_FILE = 'tray.png'
+
+const stickerFilename = (index: number): string => `${String(index + 1).padStart(2, '0')}.webp`
+
+/**
+ * Creates the `contents.json` manifest read by the official WhatsApp sticker sample apps
+ * @param {IBuiltStickerPack[]} packs - Packs to list, as returned by `StickerPack.build()`
+ * @param {IContentsJsonOptions} [options] - Store links and publisher details
+ * @returns {IContentsJson} The manifest
+ * @throws {PackError} When a pack identifier is empty, too long or holds characters the sample apps reject
+ */
+export const createContentsJson = (packs: IBuiltStickerPack[], options: IContentsJsonOptions = {}): IContentsJson => {
+    for (const { id } of packs) {
+        const error = packIdError(id)
+        if (error) throw new PackError(error)
+    }
+    return {
+        android_play_store_link: options.androidPlayStoreLink ?? '',
+        ios_app_store_link: options.iosAppStoreLink ?? '',
+        sticker_packs: packs.map(
+            (pack): IContentsJsonPack => ({
+                identifier: pack.id,
+                name: pack.pack,
+                publisher: pack.author,
+                tray_image_file: TRAY_FILE,
+                image_data_version: options.imageDataVersion ?? '1',
+                avoid_cache: options.avoidCache ?? false,
+                publisher_email: options.publisherEmail ?? '',
+                publisher_website: options.publisherWebsite ?? '',
+                privacy_policy_website: options.privacyPolicyWebsite ?? '',
+                license_agreement_website: options.licenseAgreementWebsite ?? '',
+                animated_sticker_pack: pack.animated,
+                stickers: pack.stickers.map(({ categories }, i) => ({
+                    image_file: stickerFilename(i),
+                    emojis: categories
+                }))
+            })
+        )
+    }
+}
+
+/**
+ * Writes the assets of the WhatsApp sticker sample apps: `contents.json` at the root of `dir`
+ * and a folder per pack (named after its identifier) holding the tray icon and the stickers.
+ * Every pack is validated with `WhatsAppValidator.validatePack` first; nothing is written if one fails.
+ * @param {IBuiltStickerPack[]} packs - Packs to export, as returned by `StickerPack.build()`
+ * @param {string} dir - Assets directory of the sample app
+ * @param {IContentsJsonOptions} [options] - Store links and publisher details
+ * @returns {Promise<IContentsJson>} A promise that resolves to the written manifest
+ * @example
+ * const pack = await new StickerPack(stickers, { pack: 'My Pack', author: 'Me', id: 'my_pack' }).build()
+ * await exportContentsJson([pack], './app/src/main/assets', { androidPlayStoreLink: '...' })
+ */
+export const exportContentsJson = async (
+    packs: IBuiltStickerPack[],
+    dir: string,
+    options: IContentsJsonOptions = {}
+): Promise<IContentsJson> => {
+    if (packs.length > WHATSAPP_LIMITS.MAX_PACKS_PER_APP)
+        throw new PackError(`An app can hold at most ${WHATSAPP_LIMITS.MAX_PACKS_PER_APP} sticker packs`)
+    const identifiers = packs.map(({ id }) => id)
+    if (new Set(identifiers).size !== identifiers.length) throw new PackError('Sticker pack identifiers must be unique')
+    for (const pack of packs) {
+        const { isValid, errors } = await WhatsAppValidator.validatePack(pack)
+        if (!isValid)
+            throw new PackError(`Sticker pack "${pack.pack}" is not WhatsApp compliant:\n${errors.join('\n')}`)
+    }
+    const contents = createContentsJson(packs, options)
+    for (const pack of packs) {
+        const folder = join(dir, pack.id)
+        await ensureDir(folder)
+        await writeFile(join(folder, TRAY_FILE), pack.trayIcon)
+        await Promise.all(pack.stickers.map(({ data }, i) => writeFile(join(folder, stickerFilename(i)), data)))
+    }
+    await writeJSON(join(dir, 'contents.json'), contents, { spaces: 2 })
+    return contents
+}
@@ -0,0 +1,153 @@
+import { execFile } from 'child_process'
+import ffmpeg from 'fluent-ffmpeg'
+import { existsSync } from 'fs-extra'
+import { dirname, join } from 'path'
+import sharp from 'sharp'
+import { FfmpegMissingError, FfmpegUnsupportedError } from './Errors'
+import { BuildStage, IBinaryReport, IEnvironmentReport, IFfmpegReport } from './Types'
+
+/** Filters of the ffmpeg commands of the library */
+const FILTERS = ['crop', 'scale', 'setsar', 'fps', 'pad', 'format']
+
+const paths: { ffmpeg?: string; ffprobe?: string } = {}
+
+/** Checks of the ffmpeg binaries, by path: they are run once */
+const checks = new Map<string, Promise<IFfmpegReport>>()
+
+/** Binary found the way fluent-ffmpeg finds it: set path, environment variable, then the `PATH` */
+const locate = (binary: 'ffmpeg' | 'ffprobe'): string => {
+    const variable = process.env[binary === 'ffmpeg' ? 'FFMPEG_PATH' : 'FFPROBE_PATH']
+    return paths[binary] ?? (variable && existsSync(variable) ? variable : binary)
+}
+
+/**
+ * Sets the ffmpeg binary used by every conversion (defaults to `FFMPEG_PATH`, then `ffmpeg` from the `PATH`)
+ * @param {string} [path] - Path of the binary, or undefined to go back to the default
+ * @example
+ * import ffmpegStatic from 'ffmpeg-static'
+ * setFfmpegPath(ffmpegStatic)
+ */
+export const setFfmpegPath = (path?: string): void => {
+    paths.ffmpeg = path
+    ffmpeg.setFfmpegPath(locate('ffmpeg'))
+}
+
+/**
+ * Sets the ffprobe binary used to read videos (defaults to `FFPROBE_PATH`, then `ffprobe` from the `PATH`)
+ * @param {string} [path] - Path of the binary, or undefined to go back to the default
+ */
+export const setFfprobePath = (path?: string): void => {
+    paths.ffprobe = path
+    ffmpeg.setFfprobePath(locate('ffprobe'))
+}
+
+/**
+ * Paths set with `setFfmpegPath` and `setFfprobePath`, for the worker threads
+ */
+export const getFfmpegPaths = (): { ffmpeg?: string; ffprobe?: string } => ({ ...paths })
+
+const run = (path: string, args: string[]): Promise<string> =>
+    new Promise((resolve, reject) =>
+        execFile(path, ['-hide_banner', ...args], { timeout: 10000, windowsHide: true }, (error, stdout) =>
+            error ? reject(error) : resolve(stdout)
+        )
+    )
+
+const version = async (path: string): Promise<IBinaryReport> => {
+    try {
+        const output = await run(path, ['-version'])
+        return { path, found: true, version: /version (\S+)/.exec(output)?.[1] }
+    } catch (error) {
+        return { path, found: false, error: (error as Error).message }
+    }
+}
+
+const inspectFfmpeg = async (path: string): Promise<IFfmpegReport> => {
+    const binary = await version(path)
+    const none = { libwebp: false, filters: Object.fromEntries(FILTERS.map((name) => [name, false])) }
+    if (!binary.found) return { ...binary, ...none }
+    const lists = await Promise.all([run(path, ['-encoders']), run(path, ['-filters'])]).catch((error: Error) => error)
+    if (lists instanceof Error) return { ...binary, ...none, error: lists.message }
+    const [encoders, filters] = lists
+    // Lines like ` V....D libwebp   libwebp WebP image (codec webp)` and ` ... scale   V->V   Scale the input video size`
+    const listed = (output: string, name: string) => new RegExp(`^\\s*\\S+\\s+${name}\\s`, 'm').test(output)
+    return {
+        ...binary,
+        libwebp: listed(encoders, 'libwebp'),
+        filters: Object.fromEntries(FILTERS.map((name) => [name, listed(filters, name)]))
+    }
+}
+
+/** ffmpeg report, made once per path */
+const checkFfmpeg = (): Promise<IFfmpegReport> => {
+    const path = locate('ffmpeg')
+    let check = checks.get(path)
+    if (!check) {
+        check = inspectFfmpeg(path)
+        checks.set(path, check)
+        // Not kept when ffmpeg is missing, so that installing it later works
+        void check.then(({ found }) => found || checks.delete(path))
+    }
+    return check
+}
+
+/** ffprobe report, also looked for next to ffmpeg like fluent-ffmpeg does */
+const checkFfprobe = async (ffmpegPath: string): Promise<IBinaryReport> => {
+    const report = await version(locate('ffprobe'))
+    if (report.found || paths.ffprobe || dirname(ffmpegPath) === '.') return report
+    const sibling = await version(join(dirname(ffmpegPath), `ffprobe${process.platform === 'win32' ? '.exe' : ''}`))
+    return sibling.found ? sibling : report
+}
+
+/** What the ffmpeg report lacks */
+const missingCapabilities = ({ libwebp, filters }: IFfmpegReport): string[] => [
+    ...(libwebp ? [] : ['the libwebp encoder']),
+    ...Object.keys(filters)
+        .filter((name) => !filters[name])
+        .map((name) => `the ${name} filter`)
+]
+
+/**
+ * Fails fast, before a conversion needing ffmpeg starts, when it is missing or lacks a capability
+ * @param needsFfprobe - Whether ffprobe is needed too (videos)
+ * @param stage - Stage reported by the errors
+ */
+export const assertFfmpeg = async (needsFfprobe: boolean, stage: BuildStage): Promise<void> => {
+    const report = await checkFfmpeg()
+    if (!report.found) throw new FfmpegMissingError(stage, new Error(report.error))
+    const missing = missingCapabilities(report)
+    if (missing.length) throw new FfmpegUnsupportedError(missing, stage)
+    if (!needsFfprobe) return
+    const ffprobe = await checkFfprobe(report.path)
+    if (!ffprobe.found) throw new FfmpegMissingError(stage, new Error(ffprobe.error), 'ffprobe')
+}
+
+/**
+ * Reports what the library finds of its dependencies: the ffmpeg and ffprobe binaries (version, libwebp encoder
+ * and filters) and the WebP support of sharp. Static stickers only need sharp, videos and animated stickers need
+ * the rest
+ * @returns {Promise<IEnvironmentReport>} The report, with the problems found in words
+ * @example
+ * const { ok, problems } = await checkEnvironment()
+ * if (!ok) console.warn(`Only static stickers can be made: ${problems.join(', ')}`)
+ */
+export const checkEnvironment = async (): Promise<IEnvironmentReport> => {
+    const ffmpegReport = await checkFfmpeg()
+    const ffprobe = await checkFfprobe(ffmpegReport.path)
+    const { input, output } = sharp.format.webp
+    const webp = input.buffer && output.buffer
+    const problems = [
+        ...(ffmpegReport.found
+            ? missingCapabilities(ffmpegReport).map((capability) => `ffmpeg has no ${capability.replace(/^the /, '')}`)
+            : [`ffmpeg was not found (${ffmpegReport.path})`]),
+        ...(ffprobe.found ? [] : [`ffprobe was not found (${ffprobe.path})`]),
+        ...(webp ? [] : ['sharp was built without WebP'])
+    ]
+    return {
+        ffmpeg: ffmpegReport,
+        ffprobe,
+        sharp: { libvips: sharp.versions.vips, webp },
+        ok: problems.length === 0,
+        problems
+    }
+}
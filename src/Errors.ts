@@ -0,0 +1,173 @@
+import { BuildStage, DownloadFailure, IEncodingReport, IVideoEncodingReport, StickerErrorCode } from './Types'
+
+/**
+ * Base class of the errors thrown by the library. `code` is stable and meant to be matched instead of the message
+ * @example
+ * try {
+ *     await sticker.build()
+ * } catch (error) {
+ *     if (error instanceof StickerError && error.code === 'UNSUPPORTED_MIME') reply('Send an image or a video')
+ * }
+ */
+export class StickerError extends Error {
+    public name = 'StickerError'
+
+    /**
+     * @param {string} message - Description of the error
+     * @param {StickerErrorCode} code - Machine-readable code
+     * @param {BuildStage} [stage] - Stage of the build that failed
+     * @param {unknown} [cause] - The original error
+     */
+    constructor(message: string, public code: StickerErrorCode, public stage?: BuildStage, public cause?: unknown) {
+        super(message)
+    }
+}
+
+/** The input is neither an image, a video nor an SVG */
+export class UnsupportedMimeError extends StickerError {
+    public name = 'UnsupportedMimeError'
+
+    /**
+     * @param {string} [mime] - The detected MIME type, if any
+     */
+    constructor(public mime?: string) {
+        super(mime ? `Unsupported file type: ${mime}` : 'Invalid file type', 'UNSUPPORTED_MIME', 'parse')
+    }
+}
+
+/** The input could not be read or downloaded */
+export class DownloadError extends StickerError {
+    public name = 'DownloadError'
+
+    /**
+     * @param {string} url - The URL or path of the input
+     * @param {unknown} cause - The original error
+     * @param {number} [status] - HTTP status of the response
+     * @param {DownloadFailure} [reason] - Why the download failed
+     */
+    constructor(
+        public url: string,
+        cause: unknown,
+        public status?: number,
+        public reason: DownloadFailure = 'network'
+    ) {
+        super(
+            `Could not download ${url}: ${cause instanceof Error ? cause.message : String(cause)}`,
+            'DOWNLOAD_FAILED',
+            'parse',
+            cause
+        )
+    }
+}
+
+/** ffmpeg or ffprobe (needed for videos and animated stickers) is not installed or not found */
+export class FfmpegMissingError extends StickerError {
+    public name = 'FfmpegMissingError'
+
+    /**
+     * @param {BuildStage} [stage] - Stage that needed it
+     * @param {unknown} [cause] - The original error
+     * @param {string} [binary] - 'ffmpeg' or 'ffprobe'
+     */
+    constructor(stage?: BuildStage, cause?: unknown, public binary: 'ffmpeg' | 'ffprobe' = 'ffmpeg') {
+        super(
+            `${binary} was not found, install it or set its path with ${
+                binary === 'ffmpeg' ? 'setFfmpegPath() or FFMPEG_PATH' : 'setFfprobePath() or FFPROBE_PATH'
+            }`,
+            'FFMPEG_MISSING',
+            stage,
+            cause
+        )
+    }
+}
+
+/** The ffmpeg found lacks the libwebp encoder or a filter needed by the library */
+export class FfmpegUnsupportedError extends StickerError {
+    public name = 'FfmpegUnsupportedError'
+
+    /**
+     * @param {string[]} missing - Missing encoder and filters
+     * @param {BuildStage} [stage] - Stage that needed them
+     */
+    constructor(public missing: string[], stage?: BuildStage) {
+        super(
+            `ffmpeg was built without ${missing.join(', ')}, install a build with libwebp`,
+            'FFMPEG_UNSUPPORTED',
+            stage
+        )
+    }
+}
+
+/** ffmpeg or sharp failed to process the input */
+export class EncodeError extends StickerError {
+    public name = 'EncodeError'
+
+    constructor(message: string, stage?: BuildStage, cause?: unknown) {
+        super(message, 'ENCODE_FAILED', stage, cause)
+    }
+}
+
+/** The output cannot fit the target size (only thrown with `strictSize`) */
+export class SizeLimitError extends StickerError {
+    public name = 'SizeLimitError'
+
+    /**
+     * @param {IEncodingReport|IVideoEncodingReport} report - Settings of the smallest output
+     */
+    constructor(public report: IEncodingReport | IVideoEncodingReport) {
+        super(
+            `The smallest output (${report.size} bytes) is over the target size (${report.targetSize} bytes)`,
+            'SIZE_LIMIT_UNREACHABLE',
+            'encode'
+        )
+    }
+}
+
+/** The sticker metadata (EXIF) cannot be written or read */
+export class MetadataError extends StickerError {
+    public name = 'MetadataError'
+
+    constructor(message: string, cause?: unknown) {
+        super(message, 'INVALID_METADATA', 'exif', cause)
+    }
+}
+
+/** The EXIF chunk of a sticker is not a valid TIFF structure, or its sticker tag is not a JSON object */
+export class ExifError extends MetadataError {
+    public name = 'ExifError'
+
+    /**
+     * @param {string} message - What is wrong
+     * @param {number} [offset] - Offset of the faulty structure in the EXIF chunk
+     */
+    constructor(message: string, public offset?: number) {
+        super(offset === undefined ? `Invalid EXIF: ${message}` : `Invalid EXIF: ${message} at offset ${offset}`)
+    }
+}
+
+/** An option has an invalid value */
+export class OptionsError extends StickerError {
+    public name = 'OptionsError'
+
+    constructor(message: string) {
+        super(message, 'INVALID_OPTIONS')
+    }
+}
+
+/** A sticker pack (or a set of packs) breaks the WhatsApp rules */
+export class PackError extends StickerError {
+    public name = 'PackError'
+
+    constructor(message: string) {
+        super(message, 'INVALID_PACK')
+    }
+}
+
+/** The build was aborted with its signal or timed out */
+export class AbortError extends StickerError {
+    public name = 'AbortError'
+
+    constructor(message: string, stage?: BuildStage) {
+        super(message, 'ABORTED', stage)
+    }
+}
@@ -0,0 +1,56 @@
+import { ILogger, LogLevel } from './Types'
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/** Logger used when none is set: drops everything */
+const silent: Required<ILogger> = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+}
+
+let current: Required<ILogger> = silent
+
+/**
+ * Wraps a logger so that the levels it leaves out are ignored. Without a logger, the one set with `setLogger` is used
+ */
+export const normalizeLogger = (logger?: ILogger): Required<ILogger> =>
+    logger
+        ? {
+              // Called as methods: winston and pino loggers need their `this`
+              debug: (message, fields) => logger.debug?.(message, fields),
+              info: (message, fields) => logger.info?.(message, fields),
+              warn: (message, fields) => logger.warn?.(message, fields),
+              error: (message, fields) => logger.error?.(message, fields)
+          }
+        : current
+
+/**
+ * Sets the logger used by every conversion that does not get its own `logger` build option
+ * @param {ILogger} [logger] - The logger, or undefined to go back to the silent default
+ * @example
+ * setLogger(consoleLogger('debug'))
+ * // pino (fields come first)
+ * setLogger({ info: (message, fields) => pino.info(fields, message), warn: (message, fields) => pino.warn(fields, message) })
+ * // winston
+ * setLogger(winston.createLogger({ ... }))
+ */
+export const setLogger = (logger?: ILogger): void => {
+    current = logger ? normalizeLogger(logger) : silent
+}
+
+/**
+ * Creates a logger writing to the console
+ * @param {LogLevel} [level] - Lowest level written (defaults to 'info')
+ * @example
+ * const buffer = await new Sticker('./clip.mp4').build({ logger: consoleLogger('debug') })
+ */
+export const consoleLogger = (level: LogLevel = 'info'): Required<ILogger> => {
+    const write = (name: LogLevel) =>
+        levels.indexOf(name) < levels.indexOf(level)
+            ? silent[name]
+            : (message: string, fields?: Record<string, unknown>) =>
+                  console[name](`[wa-sticker-formatter] ${message}`, ...(fields ? [fields] : []))
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') }
+}
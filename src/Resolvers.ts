@@ -0,0 +1,132 @@
+import { existsSync, readFile } from 'fs-extra'
+import { Readable } from 'stream'
+import { DownloadError, StickerError } from './Errors'
+import { BuildContext } from './internal/context'
+import { fetchBuffer } from './internal/fetch'
+import { IFetchOptions, InputResolver, StickerInput } from './Types'
+
+/** Resolvers returning other inputs are followed this many times */
+const MAX_RESOLUTIONS = 5
+
+const SCHEME = /^([a-z][a-z0-9+.-]*):/i
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/
+const DATA_URL = /^data:([^,]*?)(;base64)?,/i
+
+const resolvers = new Map<string, InputResolver>()
+
+/**
+ * Registers a resolver for the URLs of a scheme. Registered resolvers take precedence over the built-in ones
+ * (`data:`, `http:` and `https:`)
+ * @param {string} scheme - The scheme, without the colon
+ * @param {InputResolver} resolver - Returns the data of a URL, or another input
+ * @example
+ * registerResolver('s3', async (url) => {
+ *     const { hostname: Bucket, pathname } = new URL(url)
+ *     const { Body } = await s3.send(new GetObjectCommand({ Bucket, Key: pathname.slice(1) }))
+ *     return Body as Readable
+ * })
+ * const sticker = new Sticker('s3://my-bucket/cat.png')
+ */
+export const registerResolver = (scheme: string, resolver: InputResolver): void => {
+    resolvers.set(scheme.replace(/:$/, '').toLowerCase(), resolver)
+}
+
+/**
+ * Removes the resolver of a scheme
+ * @param {string} scheme - The scheme, without the colon
+ */
+export const unregisterResolver = (scheme: string): void => {
+    resolvers.delete(scheme.replace(/:$/, '').toLowerCase())
+}
+
+/**
+ * Decodes a data URL (base64 or percent-encoded). Every escape is one byte, so binary files can be percent-encoded
+ */
+const parseDataUrl = (url: string): Buffer => {
+    const malformed = (message: string) =>
+        new DownloadError(url.slice(0, 32), new Error(message), undefined, 'protocol')
+    const match = DATA_URL.exec(url)
+    if (!match) throw malformed('malformed data URL')
+    const payload = url.slice(match[0].length)
+    if (match[2]) return Buffer.from(payload, 'base64')
+    if (/%(?![0-9a-f]{2})/i.test(payload)) throw malformed('malformed escape in the data URL')
+    // Characters left as they are stand for their UTF-8 bytes, read as latin1 like the escapes
+    const bytes = payload
+        .replace(/[\u0080-\uffff]+/g, (text) => Buffer.from(text).toString('latin1'))
+        .replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    return Buffer.from(bytes, 'latin1')
+}
+
+/**
+ * Reads a stream to the end, destroying it when the build is aborted
+ */
+const readStream = async (stream: Readable, context: BuildContext): Promise<Buffer> => {
+    const detach = context.onAbort((error) => stream.destroy(error))
+    try {
+        const chunks: Buffer[] = []
+        for await (const chunk of stream) chunks.push(Buffer.from(chunk))
+        context.check()
+        return Buffer.concat(chunks)
+    } finally {
+        detach()
+    }
+}
+
+/**
+ * Runs the resolver registered for a URL, with a signal aborted with the build
+ */
+const runResolver = async (
+    resolver: InputResolver,
+    url: string,
+    fetch: IFetchOptions,
+    context: BuildContext
+): Promise<StickerInput> => {
+    const controller = new AbortController()
+    const detach = context.onAbort(() => controller.abort())
+    try {
+        return await context.race(Promise.resolve(resolver(url, { signal: controller.signal, fetch })))
+    } catch (error) {
+        throw error instanceof StickerError ? error : new DownloadError(url, error)
+    } finally {
+        detach()
+    }
+}
+
+/**
+ * Reads the data of a sticker input. Strings are tried in order as inline SVG, file path, URL of a registered scheme,
+ * data URL, base64 and http(s) URL
+ * @param input - The input
+ * @param fetch - Download limits
+ * @param context - Build context
+ */
+export const resolveInput = async (
+    input: StickerInput,
+    fetch: IFetchOptions = {},
+    context = new BuildContext()
+): Promise<Buffer> => {
+    for (let resolutions = 0; ; resolutions++) {
+        if (Buffer.isBuffer(input)) return input
+        if (typeof input !== 'string') return readStream(input, context)
+        const text = input.trim()
+        if (text.startsWith('<svg')) return Buffer.from(input)
+        if (existsSync(input)) return readFile(input)
+        const scheme = SCHEME.exec(text)?.[1].toLowerCase()
+        const resolver = scheme ? resolvers.get(scheme) : undefined
+        if (resolver) {
+            if (resolutions >= MAX_RESOLUTIONS)
+                throw new DownloadError(
+                    text,
+                    new Error(`resolved more than ${MAX_RESOLUTIONS} times`),
+                    undefined,
+                    'redirects'
+                )
+            input = await runResolver(resolver, text, fetch, context)
+            continue
+        }
+        if (scheme === 'data') return parseDataUrl(text)
+        // Line breaks of MIME-style base64 are ignored
+        const compact = text.replace(/\s+/g, '')
+        if (!scheme && compact.length % 4 === 0 && BASE64.test(compact)) return Buffer.from(compact, 'base64')
+        return fetchBuffer(text, fetch, context)
+    }
+}
@@ -0,0 +1,117 @@
+import { fromBuffer } from 'file-type'
+import { ensureDir, readFile, rename, writeFile } from 'fs-extra'
+import { basename, join } from 'path'
+import { DownloadError, MetadataError, StickerError, UnsupportedMimeError } from './Errors'
+import { extractMetadata } from './extractMetadata'
+import Exif from './internal/Metadata/Exif'
+import RawMetadata from './internal/Metadata/RawMetadata'
+import { IBulkRetagOptions, IRetagOptions, IRetagResult, IStickerConfig } from './Types'
+
+const isWebP = (data: Buffer): boolean =>
+    data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP'
+
+/**
+ * Reads a WebP sticker from a buffer or a file
+ * @throws {DownloadError} When the file cannot be read
+ * @throws {UnsupportedMimeError} When the sticker is not a WebP
+ */
+export const readWebP = async (sticker: Buffer | string): Promise<Buffer> => {
+    const data = Buffer.isBuffer(sticker)
+        ? sticker
+        : await readFile(sticker).catch((error) => {
+              throw new DownloadError(sticker, error)
+          })
+    if (!isWebP(data)) throw new UnsupportedMimeError((await fromBuffer(data))?.mime)
+    return data
+}
+
+/** Fields given with a value, so that the others keep their existing value */
+export const definedFields = (metadata: IStickerConfig): IStickerConfig =>
+    Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined))
+
+/**
+ * Changes the metadata of a WebP sticker without re-encoding it: the image and animation chunks are kept byte for byte,
+ * only the EXIF chunk is written again. The new fields are merged into the existing metadata unless `replace` is set
+ * @param {Buffer|string} sticker - WebP buffer or file path
+ * @param {IStickerConfig} metadata - Fields to set
+ * @param {IRetagOptions} [options] - `replace: true` drops the existing metadata
+ * @returns {Promise<Buffer>} The re-tagged sticker
+ * @throws {DownloadError} When the file cannot be read
+ * @throws {UnsupportedMimeError} When the sticker is not a WebP
+ * @throws {MetadataError} When the existing metadata is malformed (unless replaced) or cannot be written
+ * @example
+ * const buffer = await retagSticker(received, { pack: 'My Pack', author: 'Me' })
+ * // start over, the id and emojis of the original are dropped
+ * const fresh = await retagSticker('./sticker.webp', { pack: 'My Pack' }, { replace: true })
+ */
+export const retagSticker = async (
+    sticker: Buffer | string,
+    metadata: IStickerConfig,
+    options: IRetagOptions = {}
+): Promise<Buffer> => {
+    const data = await readWebP(sticker)
+    let config = definedFields(metadata)
+    if (!options.replace) {
+        const existing = RawMetadata.toConfig(await extractMetadata(data))
+        config = {
+            ...existing,
+            ...config,
+            extraMetadata: { ...existing.extraMetadata, ...config.extraMetadata }
+        }
+    }
+    return new Exif(config).add(data).catch((error) => {
+        throw new MetadataError(`Could not write the sticker metadata: ${error.message}`, error)
+    })
+}
+
+/**
+ * Re-tags many stickers, at most `concurrency` at a time. A failed sticker does not stop the others.
+ * File paths are written to `outDir`, or over the originals with `overwrite`; otherwise the results hold the buffers
+ * @param {(Buffer|string)[]} stickers - WebP buffers or file paths
+ * @param {IStickerConfig} metadata - Fields to set on every sticker
+ * @param {IBulkRetagOptions} [options] - Merge or replace, concurrency and where the files go
+ * @returns {Promise<IRetagResult[]>} The results, in the order of the stickers
+ * @example
+ * const files = (await readdir('./stickers')).map((name) => join('./stickers', name))
+ * const results = await retagStickers(files, { pack: 'My Pack', author: 'Me' }, { overwrite: true })
+ * const failed = results.filter(({ error }) => error)
+ */
+export const retagStickers = async (
+    stickers: (Buffer | string)[],
+    metadata: IStickerConfig,
+    options: IBulkRetagOptions = {}
+): Promise<IRetagResult[]> => {
+    const { concurrency = 8, outDir, overwrite = false } = options
+    if (outDir) await ensureDir(outDir)
+
+    const retag = async (index: number): Promise<IRetagResult> => {
+        const sticker = stickers[index]
+        try {
+            const data = await retagSticker(sticker, metadata, options)
+            if (typeof sticker !== 'string' || (!outDir && !overwrite)) return { index, data }
+            const file = outDir ? join(outDir, basename(sticker)) : sticker
+            // Written aside then renamed, so that a failure never leaves half a sticker
+            const temp = `${file}.${process.pid}-${index}.tmp`
+            await writeFile(temp, data)
+            await rename(temp, file)
+            return { index, file }
+        } catch (error) {
+            const failure =
+                error instanceof StickerError
+                    ? error
+                    : new MetadataError(`Could not re-tag the sticker: ${(error as Error).message}`, error)
+            return { index, error: failure }
+        }
+    }
+
+    const results: IRetagResult[] = new Array(stickers.length)
+    let next = 0
+    const lane = async () => {
+        while (next < stickers.length) {
+            const index = next++
+            results[index] = await retag(index)
+        }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, stickers.length)) }, lane))
+    return results
+}
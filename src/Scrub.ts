@@ -0,0 +1,118 @@
+import { Image } from 'node-webpmux'
+import { ExifError, MetadataError, StickerError } from './Errors'
+import { extractExif } from './extractMetadata'
+import Exif from './internal/Metadata/Exif'
+import { parseExif } from './internal/Metadata/ExifReader'
+import RawMetadata from './internal/Metadata/RawMetadata'
+import { parseWebP } from './internal/WebP'
+import { definedFields, readWebP } from './Retag'
+import { IRawMetadata, IScrubbedChunk, IScrubOptions, IScrubResult, IWebPChunk } from './Types'
+
+/** Chunks holding the image, which are always kept */
+const IMAGE_CHUNKS = new Set(['VP8X', 'VP8 ', 'VP8L', 'ALPH', 'ANIM', 'ANMF'])
+
+/** Appends chunks to a WebP, fixing the RIFF size */
+const appendChunks = (data: Buffer, chunks: IWebPChunk[]): Buffer => {
+    const output = Buffer.concat([
+        data,
+        ...chunks.map(({ fourCC, size, data: payload }) => {
+            const header = Buffer.alloc(8)
+            header.write(fourCC, 0, 'latin1')
+            header.writeUInt32LE(size, 4)
+            // Chunks are padded to an even size
+            return Buffer.concat([header, payload, Buffer.alloc(size & 1)])
+        })
+    ])
+    output.writeUInt32LE(output.length - 8, 4)
+    return output
+}
+
+/** Adds a VP8X chunk to a simple WebP (a lone 'VP8 ' or 'VP8L' chunk), the only kind that can hold other chunks */
+const toExtended = (data: Buffer): Buffer => {
+    const { width, height, hasAlpha } = parseWebP(data)
+    const vp8x = Buffer.alloc(18)
+    vp8x.write('VP8X', 0, 'latin1')
+    vp8x.writeUInt32LE(10, 4)
+    vp8x.writeUInt8(hasAlpha ? 0b010000 : 0, 8)
+    vp8x.writeUIntLE(width - 1, 12, 3)
+    vp8x.writeUIntLE(height - 1, 15, 3)
+    const output = Buffer.concat([data.subarray(0, 12), vp8x, data.subarray(12)])
+    output.writeUInt32LE(output.length - 8, 4)
+    return output
+}
+
+/**
+ * Removes the identifying data of a WebP sticker without re-encoding it: the EXIF metadata, XMP, ICC profile and
+ * the chunks other apps embed, except those of the `keep` allow-list. The image and animation are kept as they are.
+ * New pack and author values can be written in place of the old metadata
+ * @param {Buffer|string} sticker - WebP buffer or file path
+ * @param {IScrubOptions} [options] - Chunks and metadata fields to keep, new metadata
+ * @returns {Promise<IScrubResult>} The scrubbed sticker, with the chunks and metadata fields removed
+ * @throws {DownloadError} When the file cannot be read
+ * @throws {UnsupportedMimeError} When the sticker is not a WebP
+ * @throws {MetadataError} When the WebP is malformed or cannot be written
+ * @example
+ * const { data, removed } = await scrubSticker(received, { keepFields: ['emojis'], metadata: { pack: 'Forwarded' } })
+ * console.log(removed) // [ { fourCC: 'EXIF', size: 181 }, { fourCC: 'XMP ', size: 2048 } ]
+ */
+export const scrubSticker = async (sticker: Buffer | string, options: IScrubOptions = {}): Promise<IScrubResult> => {
+    const data = await readWebP(sticker)
+    const { keepFields = [], metadata } = options
+    const keep = new Set((options.keep ?? []).map((fourCC) => fourCC.padEnd(4)))
+    const rewrite = metadata !== undefined || keepFields.length > 0
+    try {
+        const { chunks } = parseWebP(data)
+        // A malformed EXIF is removed like any other, its fields are unknown
+        const fields: Partial<IRawMetadata> = await extractExif(data).then(
+            (exif) => exif.metadata,
+            (error) => {
+                if (error instanceof ExifError) return {}
+                throw error
+            }
+        )
+
+        const img = new Image()
+        await img.load(data)
+        if (rewrite) {
+            const existing = RawMetadata.toConfig(
+                Object.fromEntries(Object.entries(fields).filter(([key]) => keepFields.includes(key)))
+            )
+            const config = definedFields(metadata ?? {})
+            img.exif = new Exif({
+                ...existing,
+                ...config,
+                extraMetadata: { ...existing.extraMetadata, ...config.extraMetadata }
+            }).build()
+        } else if (img.exif && !keep.has('EXIF')) img.exif = undefined
+        if (img.iccp && !keep.has('ICCP')) img.iccp = undefined
+        if (img.xmp && !keep.has('XMP ')) img.xmp = undefined
+        // node-webpmux drops the chunks it does not know: those allowed are added back, to an extended WebP
+        let output: Buffer = await img.save(null)
+        const known = new Set([...IMAGE_CHUNKS, 'EXIF', 'ICCP', 'XMP '])
+        const unknown = chunks.filter(({ fourCC }) => !known.has(fourCC) && keep.has(fourCC))
+        if (unknown.length) {
+            if (parseWebP(output).chunks[0].fourCC !== 'VP8X') output = toExtended(output)
+            output = appendChunks(output, unknown)
+        }
+
+        // A chunk is removed when the output has no chunk with the same payload
+        const remaining = parseWebP(output).chunks.filter(({ fourCC }) => !IMAGE_CHUNKS.has(fourCC))
+        const removed: IScrubbedChunk[] = []
+        for (const { fourCC, size, data: payload } of chunks) {
+            if (IMAGE_CHUNKS.has(fourCC)) continue
+            const index = remaining.findIndex((chunk) => chunk.fourCC === fourCC && chunk.data.equals(payload))
+            if (index === -1) removed.push({ fourCC, size })
+            else remaining.splice(index, 1)
+        }
+        let written: Partial<IRawMetadata> = {}
+        if (rewrite) written = parseExif(img.exif as Buffer).metadata
+        else if (keep.has('EXIF')) written = fields
+        const removedFields = Object.keys(fields).filter(
+            (key) => JSON.stringify(written[key]) !== JSON.stringify(fields[key])
+        )
+        return { data: output, removed, removedFields }
+    } catch (error) {
+        if (error instanceof StickerError) throw error
+        throw new MetadataError(`Could not scrub the sticker: ${(error as Error).message}`, error)
+    }
+}
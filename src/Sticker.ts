@@ -1,28 +1,55 @@
-import { existsSync, readFile, writeFile } from 'fs-extra'
-import { IStickerConfig, IStickerOptions, IWhatsAppValidationResult } from './Types'
-import axios from 'axios'
-import Utils, { defaultBg } from './Utils'
+import { writeFile } from 'fs-extra'
+import { ServerResponse } from 'http'
+import { Readable } from 'stream'
+import {
+    IBuildOptions,
+    ICaption,
+    IEncodingReport,
+    IFetchOptions,
+    ISegmentOptions,
+    IVideoEncodingReport,
+    IVideoOptions,
+    IOutlineOptions,
+    IShadowOptions,
+    IStickerConfig,
+    IStickerOptions,
+    IWhatsAppValidationResult,
+    StickerInput
+} from './Types'
+import Utils, { defaultBg, deterministicOptions } from './Utils'
 import { fromBuffer } from 'file-type'
 import convert from './internal/convert'
+import { BuildContext, linkedController } from './internal/context'
+import { resolveInput } from './Resolvers'
+import { cacheBudget, cacheKey, readCache, resolveCache, writeCache } from './Cache'
 import Exif from './internal/Metadata/Exif'
 import { StickerTypes } from './internal/Metadata/StickerTypes'
 import { Categories, extractMetadata } from '.'
 import { Color } from 'sharp'
 import { WhatsAppValidator } from './internal/WhatsAppValidation'
+import { EncodeError, MetadataError, StickerError, UnsupportedMimeError } from './Errors'
 
 /**
  * Sticker class
  */
 export class Sticker {
+    /** Encoder settings chosen by the last `build()` with `targetSize`, or of an animation encoded again */
+    public encoding?: IEncodingReport
+
+    /** Settings chosen by the video encoder in the last `build()` of a video sticker, with what was sacrificed */
+    public videoEncoding?: IVideoEncodingReport
+
     /**
      * Sticker Constructor
-     * @param {string|Buffer} [data] - File path, url or Buffer of the image/video to be converted
+     * @param {StickerInput} [data] - Buffer, stream, file path, URL, data URL, base64 or SVG of the image/video
      * @param {IStickerOptions} [options] - Sticker options
      */
-    constructor(private data: string | Buffer, public metadata: Partial<IStickerOptions> = {}) {
+    constructor(private data: StickerInput, public metadata: Partial<IStickerOptions> = {}) {
         this.metadata.author = this.metadata.author ?? ''
         this.metadata.pack = this.metadata.pack ?? ''
-        this.metadata.id = this.metadata.id ?? Utils.generateStickerID()
+        // In the deterministic mode, the ID is derived when building, from the pack or content of that time
+        if (!deterministicOptions(this.metadata.deterministic))
+            this.metadata.id = this.metadata.id ?? Utils.generateStickerID()
         this.metadata.quality = this.metadata.quality ?? 100
         this.metadata.type = Object.values(StickerTypes).includes(this.metadata.type as StickerTypes)
             ? this.metadata.type
@@ -30,38 +57,42 @@ export class Sticker {
         this.metadata.background = this.metadata.background ?? defaultBg
     }
 
-    private _parse = async (): Promise<Buffer> =>
-        Buffer.isBuffer(this.data)
-            ? this.data
-            : this.data.trim().startsWith('<svg')
-            ? Buffer.from(this.data)
-            : (async () =>
-                  existsSync(this.data)
-                      ? readFile(this.data)
-                      : axios.get(this.data as string, { responseType: 'arraybuffer' }).then(({ data }) => data))()
+    /** Data of a stream input, read by the first build and kept for the next ones */
+    private streamData?: Promise<Buffer>
+
+    private _parse = async (context: BuildContext): Promise<Buffer> => {
+        if (typeof this.data === 'string' || Buffer.isBuffer(this.data))
+            return resolveInput(this.data, this.metadata.fetch, context)
+        // Streams can only be read once: the reading goes on when the build is aborted, for the next build
+        this.streamData = this.streamData ?? resolveInput(this.data)
+        return context.race(this.streamData)
+    }
 
     private _getMimeType = async (data: Buffer): Promise<string> => {
         const type = await fromBuffer(data)
         if (!type) {
-            if (typeof this.data === 'string') return 'image/svg+xml'
-            throw new Error('Invalid file type')
+            // SVG has no magic number: inline strings, and buffers (like the ones of batch workers) with an svg tag
+            const svg = typeof this.data === 'string' || /<svg[\s>]/i.test(data.subarray(0, 4096).toString())
+            if (svg) return 'image/svg+xml'
+            throw new UnsupportedMimeError()
         }
+        if (!/^(image|video)\//.test(type.mime)) throw new UnsupportedMimeError(type.mime)
         return type.mime
     }
 
     /**
      * Create an optimized video sticker without re-processing
      * Use this when you want to preserve video optimization from videoToGif
-     * @param data Video file path, url or Buffer 
+     * @param data Video file path, url or Buffer
      * @param metadata Sticker options
      * @returns Promise<Buffer> Optimized sticker buffer
      */
     public static createOptimizedVideo = async (
-        data: string | Buffer, 
+        data: StickerInput,
         metadata: Partial<IStickerOptions> = {}
     ): Promise<Buffer> => {
-        const sticker = new Sticker(data, { 
-            ...metadata, 
+        const sticker = new Sticker(data, {
+            ...metadata,
             skipReprocessing: true,
             quality: metadata.quality ?? 30 // Use lower quality to preserve optimization
         })
@@ -70,15 +101,50 @@ export class Sticker {
 
     /**
      * Builds the sticker
+     * @param {IBuildOptions} [options] - Abort signal, timeout and progress callback
      * @returns {Promise<Buffer>} A promise that resolves to the sticker buffer
+     * @throws {StickerError} With a `code` telling what failed and the `stage` it failed in
      * @example
      * const sticker = new Sticker('./image.png')
      * const buffer = sticker.build()
+     * // cancel a long video conversion
+     * const controller = new AbortController()
+     * const buffer = sticker.build({ signal: controller.signal, timeout: 60000, onProgress: console.log })
      */
-    public build = async (): Promise<Buffer> => {
-        const data = await this._parse()
-        const mime = await this._getMimeType(data)
-        return new Exif(this.metadata as IStickerConfig).add(await convert(data, mime, this.metadata))
+    public build = async (options: IBuildOptions = {}): Promise<Buffer> => {
+        const context = new BuildContext(options)
+        try {
+            context.check()
+            context.progress('parse', 0)
+            const data = await context.race(this._parse(context))
+            const mime = await this._getMimeType(data)
+            context.progress('parse', 100)
+            this.encoding = this.videoEncoding = undefined
+            const cache = resolveCache(options.cache)
+            const key = cache && cacheKey(data, this.metadata)
+            let image =
+                cache && key ? await readCache(cache, key, context.log, cacheBudget(this.metadata, mime)) : undefined
+            if (image) context.log.debug('Using the cached conversion', { key })
+            else {
+                image = await convert(data, mime, this.metadata, context)
+                this.encoding = context.encoding
+                this.videoEncoding = context.videoEncoding
+                if (cache && key) await writeCache(cache, key, image, context.log)
+            }
+            context.check()
+            context.progress('exif', 0)
+            const id = this.metadata.id ?? Utils.generateStickerID(this.metadata, [image])
+            const sticker = await new Exif({ ...this.metadata, id } as IStickerConfig).add(image).catch((error) => {
+                throw new MetadataError(`Could not write the sticker metadata: ${error.message}`, error)
+            })
+            context.progress('exif', 100)
+            return sticker
+        } catch (error) {
+            if (error instanceof StickerError) throw error
+            throw new EncodeError((error as Error).message, context.stage, error)
+        } finally {
+            await context.dispose()
+        }
     }
 
     /**
@@ -108,6 +174,63 @@ export class Sticker {
         return filename
     }
 
+    /**
+     * Builds the sticker as a stream. The build starts on the first read and is aborted when the stream is destroyed
+     * @param {IBuildOptions} [options] - Abort signal, timeout and progress callback
+     * @returns {Readable} A stream of the sticker, destroyed with the error when the build fails
+     * @example
+     * const sticker = new Sticker('./image.png')
+     * await pipeline(sticker.toStream(), createWriteStream('./sticker.webp'))
+     */
+    public toStream = (options: IBuildOptions = {}): Readable => {
+        const { controller, detach } = linkedController(options.signal)
+        const build = () => this.build({ ...options, signal: controller.signal }).finally(detach)
+        let started = false
+        return new Readable({
+            read() {
+                if (started) return
+                started = true
+                build().then(
+                    (data) => {
+                        this.push(data)
+                        this.push(null)
+                    },
+                    (error) => this.destroy(error)
+                )
+            },
+            destroy(error, callback) {
+                controller.abort()
+                detach()
+                callback(error)
+            }
+        })
+    }
+
+    /**
+     * Builds the sticker and sends it as an HTTP response with the `Content-Type` and `Content-Length` headers.
+     * The build is aborted when the client disconnects. Nothing is sent when the build fails
+     * @param {ServerResponse} response - Response of a Node HTTP server (or of a framework based on it, like Express)
+     * @param {IBuildOptions} [options] - Abort signal, timeout and progress callback
+     * @example
+     * createServer(async (req, res) => {
+     *     await new Sticker('./image.png').toResponse(res).catch(() => res.writeHead(500).end())
+     * })
+     */
+    public toResponse = async (response: ServerResponse, options: IBuildOptions = {}): Promise<void> => {
+        const { controller, detach } = linkedController(options.signal)
+        const disconnect = () => controller.abort()
+        response.once('close', disconnect)
+        try {
+            const data = await this.build({ ...options, signal: controller.signal })
+            response.setHeader('Content-Type', 'image/webp')
+            response.setHeader('Content-Length', data.length)
+            response.end(data)
+        } finally {
+            response.off('close', disconnect)
+            detach()
+        }
+    }
+
     /**
      * Set the sticker pack title
      * @param pack - Sticker Pack Title
@@ -189,6 +312,123 @@ export class Sticker {
         return this
     }
 
+    /**
+     * Set a custom mask to cut the sticker out with
+     * @param {string|Buffer}[mask] - SVG path data (in a 512x512 space), SVG document or mask image
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./image.png')
+     * sticker.setMask('M256 0L512 512H0Z')
+     */
+    public setMask = (mask: string | Buffer): this => {
+        this.metadata.mask = mask
+        return this
+    }
+
+    /**
+     * Set the corner radius for `rounded` stickers
+     * @param {number}[borderRadius] - Corner radius in pixels
+     * @returns {this}
+     */
+    public setBorderRadius = (borderRadius: number): this => {
+        this.metadata.borderRadius = borderRadius
+        return this
+    }
+
+    /**
+     * Set the maximum size of the sticker. The encoder settings are searched for the best looking output under it
+     * @param {number|boolean}[targetSize] - Size in bytes, metadata included. `true` for the WhatsApp limits
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./photo.jpg').setTargetSize(true)
+     * await sticker.build()
+     * console.log(sticker.encoding) // { quality: 87, lossless: false, size: 101234, ... }
+     */
+    public setTargetSize = (targetSize: number | boolean = true): this => {
+        this.metadata.targetSize = targetSize
+        return this
+    }
+
+    /**
+     * Set the part of a video, GIF or animated WebP to keep
+     * @param {ISegmentOptions}[segment] - `startTime`, `endTime` and `duration` in seconds, and the `segment` mode
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./reaction.mp4')
+     * sticker.setSegment({ startTime: 4, duration: 3 })
+     * // or the 3 seconds with the most motion
+     * sticker.setSegment({ segment: 'most-active', duration: 3 })
+     */
+    public setSegment = ({ startTime, endTime, duration, segment }: ISegmentOptions): this => {
+        Object.assign(this.metadata, { startTime, endTime, duration, segment })
+        return this
+    }
+
+    /**
+     * Set how videos are encoded to fit the animated sticker size limit
+     * @param {IVideoOptions}[video] - Target size, duration and frame rate limits, and what to reduce first
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./clip.mp4').setVideoOptions({ strategy: ['fps', 'quality'], minFps: 8 })
+     * await sticker.build()
+     * console.log(sticker.videoEncoding?.sacrificed) // ['fps', 'quality']
+     */
+    public setVideoOptions = (video: IVideoOptions): this => {
+        this.metadata.video = video
+        return this
+    }
+
+    /**
+     * Set the limits of the download when the sticker is created from a URL
+     * @param {IFetchOptions}[fetch] - Size cap, timeout, accepted types, redirects, headers and private address access
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker(url).setFetchOptions({ maxBytes: 10 * 1024 * 1024, allowedMimeTypes: ['image/*'] })
+     */
+    public setFetchOptions = (fetch: IFetchOptions): this => {
+        this.metadata.fetch = fetch
+        return this
+    }
+
+    /**
+     * Draw a stroke around the content of the sticker
+     * @param {boolean|IOutlineOptions}[outline] - `true` for a white 8px outline, or the stroke options
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./image.png')
+     * sticker.setOutline({ thickness: 12, color: '#000000' })
+     */
+    public setOutline = (outline: boolean | IOutlineOptions = true): this => {
+        this.metadata.outline = outline
+        return this
+    }
+
+    /**
+     * Draw a drop shadow under the content of the sticker
+     * @param {boolean|IShadowOptions}[shadow] - `true` for the default shadow, or the shadow options
+     * @returns {this}
+     */
+    public setShadow = (shadow: boolean | IShadowOptions = true): this => {
+        this.metadata.shadow = shadow
+        return this
+    }
+
+    /**
+     * Add a caption over the sticker. Captions are drawn in the order they are added
+     * @param {string|ICaption}[caption] - Text of the caption (drawn at the bottom) or the caption options
+     * @returns {this}
+     * @example
+     * const sticker = new Sticker('./image.gif')
+     * sticker.addCaption({ text: 'when the build passes', position: 'top' }).addCaption('first try')
+     */
+    public addCaption = (caption: string | ICaption): this => {
+        this.metadata.captions = [
+            ...(this.metadata.captions ?? []),
+            typeof caption === 'string' ? { text: caption } : caption
+        ]
+        return this
+    }
+
     /**
      * @deprecated
      * Use the `Sticker.build()` method instead
@@ -267,7 +507,7 @@ export class Sticker {
 
 /**
  *
- * @param {string|Buffer} data - File path, url or Buffer of the image/video to be converted
+ * @param {StickerInput} data - Buffer, stream, file path, URL, data URL, base64 or SVG of the image/video to be converted
  * @param {IStickerOptions} [options] - Sticker options
  * @returns {Promise<Buffer>} A promise that resolves to the sticker buffer
  */
@@ -0,0 +1,200 @@
+import { readFile } from 'fs-extra'
+import sharp from 'sharp'
+import { Sticker } from './Sticker'
+import { IBuiltSticker, IBuiltStickerPack, IStickerPackOptions, IWhatsAppPackValidationResult } from './Types'
+import Utils, { defaultBg, deterministicOptions } from './Utils'
+import Exif from './internal/Metadata/Exif'
+import { WHATSAPP_LIMITS, WhatsAppValidator } from './internal/WhatsAppValidation'
+import { exportWaStickers } from './WaStickers'
+import { PackError } from './Errors'
+
+/**
+ * StickerPack class
+ */
+export class StickerPack {
+    private _stickers: Sticker[] = []
+
+    /**
+     * StickerPack Constructor
+     * @param {Sticker[]} [stickers] - Stickers of the pack
+     * @param {IStickerPackOptions} [options] - Pack options shared by every sticker
+     */
+    constructor(stickers: Sticker[] = [], public metadata: IStickerPackOptions = {}) {
+        this.metadata.author = this.metadata.author ?? ''
+        this.metadata.pack = this.metadata.pack ?? ''
+        // In the deterministic mode, the ID is derived when building, from the pack or content of that time
+        if (!deterministicOptions(this.metadata.deterministic))
+            this.metadata.id = this.metadata.id ?? Utils.generateStickerID()
+        this.add(...stickers)
+    }
+
+    /**
+     * Stickers of the pack
+     */
+    public get stickers(): Sticker[] {
+        return [...this._stickers]
+    }
+
+    /**
+     * Adds stickers to the pack
+     * @param stickers - Stickers to add
+     * @returns {this}
+     * @example
+     * const pack = new StickerPack([], { pack: 'My Pack', author: 'Me' })
+     * pack.add(new Sticker('./1.png'), new Sticker('./2.png'))
+     */
+    public add = (...stickers: Sticker[]): this => {
+        if (this._stickers.length + stickers.length > WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK)
+            throw new PackError(`A sticker pack can hold at most ${WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK} stickers`)
+        this._stickers.push(...stickers)
+        return this
+    }
+
+    /**
+     * Removes a sticker from the pack
+     * @param sticker - Sticker to remove
+     * @returns {this}
+     */
+    public remove = (sticker: Sticker): this => {
+        this._stickers = this._stickers.filter((s) => s !== sticker)
+        return this
+    }
+
+    /**
+     * Set the sticker pack title
+     * @param pack - Sticker Pack Title
+     * @returns {this}
+     */
+    public setPack = (pack: string): this => {
+        this.metadata.pack = pack
+        return this
+    }
+
+    /**
+     * Set the sticker pack author
+     * @param author - Sticker Pack Author
+     * @returns {this}
+     */
+    public setAuthor = (author: string): this => {
+        this.metadata.author = author
+        return this
+    }
+
+    /**
+     * Set the sticker pack ID
+     * @param id - Sticker Pack ID
+     * @returns {this}
+     */
+    public setID = (id: string): this => {
+        this.metadata.id = id
+        return this
+    }
+
+    /**
+     * Set the image used for the tray icon
+     * @param trayIcon - File path or Buffer of the image
+     * @returns {this}
+     */
+    public setTrayIcon = (trayIcon: string | Buffer): this => {
+        this.metadata.trayIcon = trayIcon
+        return this
+    }
+
+    /**
+     * Builds every sticker of the pack with the shared pack metadata and generates the tray icon
+     * @returns {Promise<IBuiltStickerPack>} A promise that resolves to the built pack
+     * @example
+     * const pack = new StickerPack(stickers, { pack: 'My Pack', author: 'Me' })
+     * const { stickers, trayIcon } = await pack.build()
+     */
+    public build = async (): Promise<IBuiltStickerPack> => {
+        if (this._stickers.length < WHATSAPP_LIMITS.MIN_STICKERS_PER_PACK)
+            throw new PackError(`A sticker pack needs at least ${WHATSAPP_LIMITS.MIN_STICKERS_PER_PACK} stickers`)
+        const { pack = '', author = '', deterministic } = this.metadata
+        const images: Buffer[] = []
+        for (const sticker of this._stickers) {
+            const own = sticker.metadata
+            // Built with the pack fields, so that the room kept for the metadata under a size limit is the one used
+            sticker.metadata = {
+                ...own,
+                pack,
+                author,
+                id: this.metadata.id,
+                deterministic: deterministic ?? own.deterministic
+            }
+            try {
+                images.push(await sticker.build())
+            } finally {
+                sticker.metadata = own
+            }
+        }
+        const id = this.metadata.id ?? Utils.generateStickerID(this.metadata, images)
+        const stickers: IBuiltSticker[] = []
+        for (const [index, sticker] of this._stickers.entries()) {
+            const categories = sticker.metadata.categories ?? []
+            // The pack fields are shared, the others (accessibility text, flags…) are the sticker's own
+            const data = await new Exif({
+                ...sticker.metadata,
+                pack,
+                author,
+                id,
+                categories,
+                deterministic: deterministic ?? sticker.metadata.deterministic
+            }).add(images[index])
+            stickers.push({ data, categories })
+        }
+        const animated = await Promise.all(stickers.map(({ data }) => StickerPack.isAnimated(data)))
+        if (animated.some((value) => value !== animated[0]))
+            throw new PackError('A sticker pack cannot mix animated and static stickers')
+        return {
+            pack,
+            author,
+            id,
+            animated: animated[0],
+            trayIcon: await StickerPack.createTrayIcon(this.metadata.trayIcon ?? stickers[0].data),
+            stickers
+        }
+    }
+
+    /**
+     * Builds the pack and validates it against WhatsApp requirements
+     * @returns {Promise<IWhatsAppPackValidationResult>} Validation result of the pack and of every sticker
+     * @example
+     * const validation = await pack.validateWhatsAppCompliance()
+     * if (!validation.isValid) {
+     *   console.log('Validation errors:', validation.errors)
+     * }
+     */
+    public validateWhatsAppCompliance = async (): Promise<IWhatsAppPackValidationResult> =>
+        WhatsAppValidator.validatePack(await this.build())
+
+    /**
+     * Builds the pack and exports it as a `.wastickers` archive
+     * @returns {Promise<Buffer>} A promise that resolves to the archive buffer
+     * @example
+     * const pack = new StickerPack(stickers, { pack: 'My Pack', author: 'Me' })
+     * await writeFile('./My Pack.wastickers', await pack.toWaStickers())
+     */
+    public toWaStickers = async (): Promise<Buffer> => exportWaStickers(await this.build())
+
+    /**
+     * Creates a 96x96 PNG tray icon within WhatsApp's size limit
+     * @param {string|Buffer} image - File path or Buffer of the image
+     * @returns {Promise<Buffer>} A promise that resolves to the tray icon buffer
+     */
+    public static createTrayIcon = async (image: string | Buffer): Promise<Buffer> => {
+        const data = Buffer.isBuffer(image) ? image : await readFile(image)
+        const icon = sharp(data).resize(WHATSAPP_LIMITS.TRAY_ICON_SIZE, WHATSAPP_LIMITS.TRAY_ICON_SIZE, {
+            fit: sharp.fit.contain,
+            background: defaultBg
+        })
+        const buffer = await icon.clone().png({ compressionLevel: 9 }).toBuffer()
+        if (buffer.length <= WHATSAPP_LIMITS.TRAY_ICON_MAX_SIZE) return buffer
+        return await icon.png({ compressionLevel: 9, palette: true }).toBuffer()
+    }
+
+    private static isAnimated = async (data: Buffer): Promise<boolean> => {
+        const { pages = 1 } = await sharp(data).metadata()
+        return pages > 1
+    }
+}
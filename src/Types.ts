@@ -1,5 +1,8 @@
 import sharp, { Color } from 'sharp'
 import { StickerTypes } from './internal/Metadata/StickerTypes'
+import { Sticker } from './Sticker'
+import { Readable } from 'stream'
+import { StickerError } from './Errors'
 
 /** Sticker metadata config */
 export interface IStickerConfig {
@@ -11,9 +14,51 @@ export interface IStickerConfig {
     id?: string
     /** Sticker Category*/
     categories?: Categories[]
+    /** Play Store link of the app that made the sticker */
+    androidAppStoreLink?: string
+    /** App Store link of the app that made the sticker */
+    iosAppStoreLink?: string
+    /** Whether the sticker is an avatar sticker */
+    isAvatar?: boolean
+    /** Whether the sticker is made by WhatsApp */
+    isFirstParty?: boolean
+    /** Whether the sticker was generated by AI */
+    isAi?: boolean
+    /** Description of the sticker read by screen readers */
+    accessibilityText?: string
+    /** Other EXIF keys, written as they are (the fields above take precedence) */
+    extraMetadata?: Record<string, unknown>
+    /**
+     * Derives the pack ID from the pack or the content instead of random bytes and sorts the EXIF keys,
+     * so that the same input and options build byte-identical stickers. Ignored when `id` is given
+     */
+    deterministic?: boolean | IDeterministicOptions
+}
+
+/** How the IDs are derived in the deterministic mode */
+export interface IDeterministicOptions {
+    /** Mixed into every ID, so that two apps do not derive the same IDs (defaults to 'wa-sticker-formatter') */
+    namespace?: string
+    /** 'pack' hashes the pack name and author, 'content' the image of the stickers (defaults to 'pack') */
+    idFrom?: 'pack' | 'content'
+}
+
+/** Part of a video, GIF or animated WebP to keep */
+export interface ISegmentOptions {
+    /** Where the kept part starts, in seconds (defaults to 0) */
+    startTime?: number
+    /** Where the kept part ends, in seconds (defaults to the end of the clip) */
+    endTime?: number
+    /** Length of the kept part in seconds, counted from `startTime` (or the most active point) */
+    duration?: number
+    /**
+     * 'start' keeps the clip from `startTime`. 'most-active' keeps the `duration` seconds with the most motion
+     * between `startTime` and `endTime` (defaults to 'start')
+     */
+    segment?: 'start' | 'most-active'
 }
 
-export interface IStickerOptions extends IStickerConfig {
+export interface IStickerOptions extends IStickerConfig, ISegmentOptions {
     /** How you want your sticker to look like
      * Can be crop or full. Defaults to 'default' (no changes)
      */
@@ -26,15 +71,587 @@ export interface IStickerOptions extends IStickerConfig {
      * Background Color of the sticker (only for type full)
      */
     background?: Color
+    /**
+     * Custom mask to cut the sticker out with: SVG path data (in a 512x512 space), an SVG document or an image.
+     * Opaque areas are kept; images without alpha are read as luminance (white is kept)
+     */
+    mask?: string | Buffer
+    /** Corner radius of `rounded` stickers, in pixels (defaults to 50) */
+    borderRadius?: number
+    /** Stroke drawn around the content of the sticker. `true` uses a white 8px outline */
+    outline?: boolean | IOutlineOptions
+    /** Drop shadow drawn under the content of the sticker. `true` uses the default shadow */
+    shadow?: boolean | IShadowOptions
+    /** Text drawn over the sticker (on every frame of animated stickers) */
+    captions?: ICaption[]
+    /**
+     * Maximum size of the sticker in bytes, metadata included. The encoder settings are searched
+     * for the best looking output under it. `true` uses the WhatsApp limit (100KB static, 500KB animated).
+     * Animations encoded again default to `video.targetSize` or 500KB
+     */
+    targetSize?: number | boolean
+    /** Rejects with a `SizeLimitError` instead of returning the smallest output when `targetSize` (or the video size limit) cannot be reached */
+    strictSize?: boolean
+    /** How videos are encoded to fit the animated sticker size limit */
+    video?: IVideoOptions
+    /** Limits of the download when the sticker is created from a URL */
+    fetch?: IFetchOptions
     /** Skip re-processing for already optimized content (internal use) */
     skipReprocessing?: boolean
 }
 
+/**
+ * Input of a sticker: a Buffer, a Readable stream or a string
+ * (file path, http(s) URL, data URL, base64, inline SVG or URL of a registered scheme)
+ */
+export type StickerInput = string | Buffer | Readable
+
+/** Options given to input resolvers */
+export interface IResolverOptions {
+    /** Aborted with the build */
+    signal: AbortSignal
+    /** Download limits of the sticker */
+    fetch: IFetchOptions
+}
+
+/**
+ * Resolves the URLs of a scheme, like `s3://bucket/key`, to their data.
+ * Can also return another input, like a signed https URL, which is resolved in turn
+ */
+export type InputResolver = (url: string, options: IResolverOptions) => StickerInput | Promise<StickerInput>
+
+/** Limits of the download of a sticker created from a URL */
+export interface IFetchOptions {
+    /** Largest response body in bytes, the download is aborted as soon as it goes over (defaults to 50MB) */
+    maxBytes?: number
+    /** Time allowed for the whole download in milliseconds, redirects included (defaults to 30000) */
+    timeout?: number
+    /** Accepted `Content-Type`s, `image/*` style wildcards allowed (defaults to any) */
+    allowedMimeTypes?: string[]
+    /** Redirects followed before giving up (defaults to 5) */
+    maxRedirects?: number
+    /** Headers sent with the request, and with redirects to the same origin only */
+    headers?: Record<string, string>
+    /** Allows loopback, private, link-local and other reserved addresses (blocked by default) */
+    allowPrivateAddresses?: boolean
+}
+
+/** Why a download failed */
+export type DownloadFailure = 'network' | 'status' | 'protocol' | 'blocked' | 'redirects' | 'mime' | 'size' | 'timeout'
+
+/** Stroke drawn around the alpha silhouette of a sticker */
+export interface IOutlineOptions {
+    /** Width of the stroke in pixels (defaults to 8) */
+    thickness?: number
+    /** Color of the stroke (defaults to white) */
+    color?: Color
+}
+
+/** Drop shadow drawn under the content of a sticker (and its outline) */
+export interface IShadowOptions {
+    /** Blur radius in pixels (defaults to 6) */
+    blur?: number
+    /** Horizontal offset in pixels (defaults to 4) */
+    offsetX?: number
+    /** Vertical offset in pixels (defaults to 4) */
+    offsetY?: number
+    /** Color of the shadow (defaults to black) */
+    color?: Color
+    /** Opacity of the shadow from 0 to 1 (defaults to 0.5) */
+    opacity?: number
+}
+
+/** A text layer drawn over a sticker */
+export interface ICaption {
+    /** Text of the caption. Line breaks are kept */
+    text: string
+    /** Where the caption is placed (defaults to 'bottom') */
+    position?: 'top' | 'center' | 'bottom'
+    /** Font family of an installed font (defaults to Impact and fallbacks) */
+    fontFamily?: string
+    /** Path or Buffer of a TTF/OTF/WOFF font, used instead of `fontFamily` */
+    fontFile?: string | Buffer
+    /** Font size in pixels. Defaults to 10% of the sticker width; the text is shrunk when it does not fit */
+    fontSize?: number
+    /** Text color (defaults to white) */
+    fill?: string
+    /** Outline color of the text (defaults to black) */
+    stroke?: string
+    /** Outline width in pixels, 0 to disable (defaults to 1/12 of the font size) */
+    strokeWidth?: number
+    /** Wrap the text on several lines to fit the sticker width (defaults to true) */
+    wrap?: boolean
+    /** Distance to the edges of the sticker in pixels (defaults to 3% of the width) */
+    margin?: number
+}
+
+/** Encoder settings chosen for a sticker built with `targetSize` */
+export interface IEncodingReport {
+    /** Size the image had to fit in, in bytes (without the room left for metadata) */
+    targetSize: number
+    /** Size of the encoded image in bytes (without metadata) */
+    size: number
+    /** Whether the output fits in the target. When false, the smallest output found is used */
+    withinTarget: boolean
+    /** WebP quality (the preprocessing level in near-lossless mode) */
+    quality: number
+    lossless: boolean
+    nearLossless: boolean
+    /** Number of encodings tried */
+    attempts: number
+}
+
+/** What the video encoder may reduce to reach the target size */
+export type VideoSacrifice = 'quality' | 'fps' | 'duration'
+
+/** Options of the video encoder */
+export interface IVideoOptions {
+    /** Maximum size of the output in bytes (defaults to the WhatsApp limit, 500KB) */
+    targetSize?: number
+    /** Longer videos are cut, in seconds (defaults to 10) */
+    maxDuration?: number
+    /** Shortest duration the video may be trimmed to, in seconds (defaults to 1) */
+    minDuration?: number
+    /** Frame rate to start from, never above the one of the source (defaults to 15) */
+    fps?: number
+    /** Lowest frame rate when dropping frames (defaults to 5) */
+    minFps?: number
+    /** Highest WebP quality (defaults to 80) */
+    maxQuality?: number
+    /** Lowest WebP quality (defaults to 10) */
+    minQuality?: number
+    /**
+     * What is reduced, in order, when the output does not fit. Leave a value out to never reduce it
+     * (defaults to ['quality', 'fps', 'duration'])
+     */
+    strategy?: VideoSacrifice[]
+}
+
+/** Settings chosen by the video encoder */
+export interface IVideoEncodingReport {
+    /** Maximum size of the output in bytes */
+    targetSize: number
+    /** Size of the output in bytes */
+    size: number
+    /** Whether the output fits in the target. When false, the smallest output found is used */
+    withinTarget: boolean
+    /** WebP quality */
+    quality: number
+    /** Frame rate of the output */
+    fps: number
+    /** Duration of the output in seconds */
+    duration: number
+    /** Where the output starts in the source video, in seconds */
+    startTime: number
+    /** Duration of the source video in seconds */
+    sourceDuration: number
+    /** Frame rate of the source video */
+    sourceFps: number
+    /** What was reduced compared to the options (a clip cut to `maxDuration` counts as 'duration') */
+    sacrificed: VideoSacrifice[]
+    /** Number of encodings tried */
+    attempts: number
+}
+
+/** Stages of `Sticker.build()` reported to `onProgress` */
+export type BuildStage = 'parse' | 'probe' | 'segment' | 'encode' | 'process' | 'exif'
+
+/** Progress of a build */
+export interface IProgressEvent {
+    stage: BuildStage
+    /** Progress of the stage, from 0 to 100 */
+    percent: number
+    /** Encoding attempt, starting at 1 (only for the 'encode' stage) */
+    attempt?: number
+}
+
+/** ffmpeg or ffprobe as found by `checkEnvironment()` */
+export interface IBinaryReport {
+    /** Path or command name it was run with */
+    path: string
+    found: boolean
+    /** Version from `-version`, like '6.1.1' */
+    version?: string
+    /** Why it could not be run */
+    error?: string
+}
+
+export interface IFfmpegReport extends IBinaryReport {
+    /** Whether the libwebp encoder of animated stickers is available */
+    libwebp: boolean
+    /** Availability of every filter used by the library */
+    filters: Record<string, boolean>
+}
+
+/** Result of `checkEnvironment()` */
+export interface IEnvironmentReport {
+    ffmpeg: IFfmpegReport
+    ffprobe: IBinaryReport
+    sharp: {
+        /** Version of libvips */
+        libvips: string
+        /** Whether sharp reads and writes WebP */
+        webp: boolean
+    }
+    /** Whether every kind of sticker can be made (static stickers only need sharp) */
+    ok: boolean
+    /** What is missing, in words */
+    problems: string[]
+}
+
+/** Machine-readable code of a `StickerError`, stable across versions */
+export type StickerErrorCode =
+    | 'UNSUPPORTED_MIME'
+    | 'DOWNLOAD_FAILED'
+    | 'FFMPEG_MISSING'
+    | 'FFMPEG_UNSUPPORTED'
+    | 'ENCODE_FAILED'
+    | 'SIZE_LIMIT_UNREACHABLE'
+    | 'INVALID_METADATA'
+    | 'INVALID_OPTIONS'
+    | 'INVALID_PACK'
+    | 'ABORTED'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Receives the log entries of the conversions. Levels left out are ignored.
+ * `fields` holds structured values such as `attempt`, `quality` and `size`
+ */
+export interface ILogger {
+    debug?(message: string, fields?: Record<string, unknown>): void
+    info?(message: string, fields?: Record<string, unknown>): void
+    warn?(message: string, fields?: Record<string, unknown>): void
+    error?(message: string, fields?: Record<string, unknown>): void
+}
+
+/** Options of `Sticker.build()` */
+export interface IBuildOptions {
+    /** Aborts the build: running ffmpeg processes are killed and temporary files removed */
+    signal?: AbortSignal
+    /** Aborts the build after this many milliseconds */
+    timeout?: number
+    /** Called when a stage starts, progresses and ends */
+    onProgress?: (event: IProgressEvent) => void
+    /** Logger of this build (defaults to the one set with `setLogger`, silent unless set) */
+    logger?: ILogger
+    /** Existing directory for the temporary files of ffmpeg (defaults to the OS temporary directory) */
+    tempDir?: string
+    /** Cache of the conversions (defaults to the one set with `setCache`), `false` to skip it */
+    cache?: IStickerCache | false
+}
+
+/**
+ * Store of converted stickers, before their metadata is written. Keys are hashes of the input and of the options
+ * that change the image; the store decides what it keeps and for how long
+ */
+export interface IStickerCache {
+    get(key: string): Buffer | undefined | Promise<Buffer | undefined>
+    set(key: string, data: Buffer): void | Promise<void>
+}
+
+/** Limits of the built-in caches */
+export interface ICacheOptions {
+    /** Total size of the kept stickers in bytes, the least recently used are evicted first */
+    maxBytes?: number
+    /** Number of kept stickers */
+    maxEntries?: number
+    /** Time a sticker is kept in milliseconds (defaults to forever) */
+    ttl?: number
+}
+
+/** Sticker of a batch, with its own options */
+export interface IBatchItem {
+    input: StickerInput
+    /** Options of this sticker, merged over the `defaults` of the batch */
+    options?: Partial<IStickerOptions>
+}
+
+/** Options of `createStickers()` */
+export interface IBatchOptions {
+    /** Options shared by every sticker of the batch */
+    defaults?: Partial<IStickerOptions>
+    /** Stickers converted at the same time (defaults to the number of CPUs) */
+    concurrency?: number
+    /** Converts the stickers in worker threads, one per concurrent conversion */
+    workers?: boolean
+    /** Aborts the batch: running conversions are aborted, the others are not started */
+    signal?: AbortSignal
+    /** Time allowed for each sticker in milliseconds */
+    timeout?: number
+    /** Existing directory for the temporary files of ffmpeg */
+    tempDir?: string
+    /** Cache of the conversions (defaults to the one set with `setCache`), `false` to skip it */
+    cache?: IStickerCache | false
+    /** Logger of the conversions (defaults to the one set with `setLogger`) */
+    logger?: ILogger
+    /** Called when a stage of a sticker starts, progresses and ends */
+    onProgress?: (index: number, event: IProgressEvent) => void
+    /** Called as soon as a sticker is converted or failed */
+    onResult?: (result: IBatchResult) => void
+}
+
+/** Outcome of one sticker of a batch: `data` when it was converted, `error` when it failed */
+export interface IBatchResult {
+    /** Position of the sticker in the batch */
+    index: number
+    data?: Buffer
+    error?: StickerError
+    /** Encoder settings of a static sticker built with `targetSize` */
+    encoding?: IEncodingReport
+    /** Video encoder settings of a video sticker */
+    videoEncoding?: IVideoEncodingReport
+}
+
+/** Options of `retagSticker()` */
+export interface IRetagOptions {
+    /** Drops the existing metadata instead of merging the new fields into it */
+    replace?: boolean
+}
+
+/** Options of `retagStickers()` */
+export interface IBulkRetagOptions extends IRetagOptions {
+    /** Stickers re-tagged at the same time (defaults to 8) */
+    concurrency?: number
+    /** Directory the re-tagged files are written to, under their own names */
+    outDir?: string
+    /** Writes the re-tagged files over the original ones */
+    overwrite?: boolean
+}
+
+/** Outcome of one sticker of `retagStickers()` */
+export interface IRetagResult {
+    /** Position of the sticker in the list */
+    index: number
+    /** File the sticker was written to, when it was */
+    file?: string
+    /** The re-tagged sticker, when it was not written to a file */
+    data?: Buffer
+    error?: StickerError
+}
+
+/** Options of `scrubSticker()` */
+export interface IScrubOptions {
+    /**
+     * Chunks kept besides the image ones, e.g. `['ICCP']` to keep the color profile. Everything else is removed:
+     * EXIF, XMP, ICC profile and the chunks of other apps. Unknown chunks can only be kept in an extended WebP
+     */
+    keep?: string[]
+    /** Keys of the sticker metadata kept in a new EXIF, e.g. `['emojis']`. The other tags of the EXIF are dropped */
+    keepFields?: string[]
+    /** Fields written in a new EXIF, over the kept ones, e.g. `{ pack: 'Forwarded', author: '' }` */
+    metadata?: IStickerConfig
+}
+
+/** A chunk removed by `scrubSticker()` */
+export interface IScrubbedChunk {
+    fourCC: string
+    /** Payload size in bytes */
+    size: number
+}
+
+/** Result of `scrubSticker()` */
+export interface IScrubResult {
+    /** The scrubbed sticker */
+    data: Buffer
+    /** Chunks removed, or rewritten such as an EXIF with new fields */
+    removed: IScrubbedChunk[]
+    /** Keys of the sticker metadata whose value is gone */
+    removedFields: string[]
+}
+
+/** Sticker pack config, shared by every sticker of the pack */
+export interface IStickerPackOptions {
+    /** Sticker Pack title*/
+    pack?: string
+    /** Sticker Pack Author*/
+    author?: string
+    /** Sticker Pack ID*/
+    id?: string
+    /** File path or Buffer of the image used for the tray icon. Defaults to the first sticker of the pack */
+    trayIcon?: string | Buffer
+    /** Derives the pack ID from the pack name and author, or from the stickers, and sorts the EXIF keys */
+    deterministic?: boolean | IDeterministicOptions
+}
+
+/** A sticker built as part of a pack */
+export interface IBuiltSticker {
+    /** WebP buffer with the pack metadata attached */
+    data: Buffer
+    /** Emojis of the sticker */
+    categories: Categories[]
+}
+
+/** Result of `StickerPack.build()` */
+export interface IBuiltStickerPack {
+    pack: string
+    author: string
+    id: string
+    /** Whether the pack holds animated stickers */
+    animated: boolean
+    /** 96x96 PNG tray icon */
+    trayIcon: Buffer
+    stickers: IBuiltSticker[]
+}
+
+/** A sticker read from a `.wastickers` archive */
+export interface IWaStickersEntry {
+    /** Name of the file inside the archive */
+    filename: string
+    /** WebP buffer as stored in the archive */
+    data: Buffer
+    /** Metadata embedded in the sticker */
+    metadata: Partial<IRawMetadata>
+    /** Sticker created from the file and its metadata */
+    sticker: Sticker
+}
+
+/** Result of `importWaStickers()` */
+export interface IWaStickersArchive {
+    /** Pack title from `title.txt` */
+    pack: string
+    /** Pack author from `author.txt` */
+    author: string
+    /** Tray image, if the archive has one */
+    trayIcon?: Buffer
+    stickers: IWaStickersEntry[]
+}
+
+/** Store links and publisher details written to `contents.json` */
+export interface IContentsJsonOptions {
+    /** Play Store link of the app holding the packs */
+    androidPlayStoreLink?: string
+    /** App Store link of the app holding the packs */
+    iosAppStoreLink?: string
+    publisherEmail?: string
+    publisherWebsite?: string
+    privacyPolicyWebsite?: string
+    licenseAgreementWebsite?: string
+    /** Bump this whenever the images of a pack change (defaults to '1') */
+    imageDataVersion?: string
+    /** Ask WhatsApp not to cache the stickers (defaults to false) */
+    avoidCache?: boolean
+}
+
+/** A sticker entry of `contents.json` */
+export interface IContentsJsonSticker {
+    image_file: string
+    emojis: string[]
+}
+
+/** A pack entry of `contents.json` */
+export interface IContentsJsonPack {
+    identifier: string
+    name: string
+    publisher: string
+    tray_image_file: string
+    image_data_version: string
+    avoid_cache: boolean
+    publisher_email: string
+    publisher_website: string
+    privacy_policy_website: string
+    license_agreement_website: string
+    animated_sticker_pack: boolean
+    stickers: IContentsJsonSticker[]
+}
+
+/** Manifest read by the official WhatsApp sticker sample apps */
+export interface IContentsJson {
+    android_play_store_link: string
+    ios_app_store_link: string
+    sticker_packs: IContentsJsonPack[]
+}
+
+/** A chunk of a WebP (RIFF) file */
+export interface IWebPChunk {
+    /** Chunk identifier, e.g. 'VP8X', 'ANMF', 'EXIF' */
+    fourCC: string
+    /** Byte offset of the chunk header in the file */
+    offset: number
+    /** Size of the chunk payload in bytes (without header and padding) */
+    size: number
+    /** Chunk payload */
+    data: Buffer
+}
+
+/** A frame of an animated WebP */
+export interface IWebPFrame {
+    /** Horizontal offset of the frame on the canvas */
+    x: number
+    /** Vertical offset of the frame on the canvas */
+    y: number
+    width: number
+    height: number
+    /** How long the frame is displayed, in milliseconds */
+    duration: number
+    /** Whether the frame is alpha-blended over the previous canvas (false: it replaces it) */
+    blend: boolean
+    /** Whether the frame area is cleared to the background color before the next frame */
+    dispose: boolean
+}
+
+/** Information read from the chunks of a WebP file */
+export interface IWebPInfo {
+    /** 'VP8 ' (lossy), 'VP8L' (lossless) or 'VP8X' (extended) */
+    format: 'lossy' | 'lossless' | 'extended'
+    /** Canvas width */
+    width: number
+    /** Canvas height */
+    height: number
+    animated: boolean
+    hasAlpha: boolean
+    hasICC: boolean
+    hasEXIF: boolean
+    hasXMP: boolean
+    /** Number of times the animation plays, 0 means forever */
+    loopCount: number
+    /** Background color of the animation canvas as [r, g, b, a] */
+    backgroundColor: [number, number, number, number]
+    /** Frames of the animation (empty for still images) */
+    frames: IWebPFrame[]
+    /** Total duration of one animation loop, in milliseconds */
+    duration: number
+    /** Top level chunks in file order */
+    chunks: IWebPChunk[]
+}
+
+/** An entry of a TIFF IFD, as stored in the EXIF chunk */
+export interface IExifEntry {
+    /** Tag number (0x5741 holds the sticker metadata) */
+    tag: number
+    /** TIFF field type: 1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL, 7 UNDEFINED… */
+    type: number
+    /** Number of values */
+    count: number
+    /** Raw bytes of the values, in the byte order of the file */
+    value: Buffer
+    /** Position of the IFD holding the entry, 0 for the first */
+    ifd: number
+}
+
+/** Result of `extractExif()` */
+export interface IExifData {
+    byteOrder: 'little-endian' | 'big-endian'
+    /** Every entry of every IFD, in file order */
+    entries: IExifEntry[]
+    /** JSON of the sticker tag, empty when the tag is missing */
+    metadata: Partial<IRawMetadata>
+}
+
+/** JSON stored in the EXIF of a sticker, as read by WhatsApp */
 export interface IRawMetadata {
     emojis: string[]
     'sticker-pack-id': string
     'sticker-pack-name': string
     'sticker-pack-publisher': string
+    'android-app-store-link'?: string
+    'ios-app-store-link'?: string
+    'is-avatar-sticker'?: 0 | 1
+    'is-first-party-sticker'?: 0 | 1
+    'is-ai-sticker'?: 0 | 1
+    'accessibility-text'?: string
+    /** Keys unknown to the library, kept as they are */
+    [key: string]: unknown
 }
 
 /** WhatsApp sticker validation result */
@@ -67,6 +684,32 @@ export interface IWhatsAppValidationResult {
     }
 }
 
+/** WhatsApp sticker pack validation result */
+export interface IWhatsAppPackValidationResult {
+    /** Whether the pack meets all WhatsApp requirements */
+    isValid: boolean
+    /** List of validation errors */
+    errors: string[]
+    /** List of validation warnings */
+    warnings: string[]
+    /** Sticker count validation */
+    stickerCount: {
+        count: number
+        isValid: boolean
+        min: number
+        max: number
+    }
+    /** Tray icon validation */
+    trayIcon: {
+        width: number
+        height: number
+        size: number
+        isValid: boolean
+    }
+    /** Validation result of every sticker of the pack */
+    stickers: IWhatsAppValidationResult[]
+}
+
 export type Metadata = IStickerConfig | IStickerOptions
 
 type Love =
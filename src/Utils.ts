@@ -1,7 +1,47 @@
-import { randomBytes } from 'crypto'
+import { createHash, randomBytes } from 'crypto'
+import { parseWebP } from './internal/WebP'
+import { IDeterministicOptions } from './Types'
+
+/** Chunks holding the image, hashed for the IDs derived from the content */
+const IMAGE_CHUNKS = ['VP8 ', 'VP8L', 'ALPH', 'ANIM', 'ANMF']
+
+/**
+ * Settings of the deterministic mode, undefined when it is off
+ * @param option - The `deterministic` option
+ */
+export const deterministicOptions = (
+    option?: boolean | IDeterministicOptions
+): Required<IDeterministicOptions> | undefined => {
+    if (!option) return undefined
+    const { namespace = 'wa-sticker-formatter', idFrom = 'pack' } = option === true ? {} : option
+    return { namespace, idFrom }
+}
 
 export default abstract class Utils {
-    static generateStickerID = (): string => randomBytes(32).toString('hex')
+    /**
+     * Generates a sticker pack ID: 32 random bytes, or in the deterministic mode the SHA-256 of the namespace
+     * and the pack name and author, or of the image chunks of the stickers. Without images, 'content' uses the pack
+     * @param {object} [config] - Pack, author and `deterministic` option
+     * @param {Buffer[]} [images] - WebP stickers, for `idFrom: 'content'`
+     * @returns {string} 64 hex characters
+     */
+    static generateStickerID = (
+        config: { pack?: string; author?: string; deterministic?: boolean | IDeterministicOptions } = {},
+        images: Buffer[] = []
+    ): string => {
+        const options = deterministicOptions(config.deterministic)
+        if (!options) return randomBytes(32).toString('hex')
+        const hash = createHash('sha256').update(options.namespace)
+        const update = (part: string | Buffer) => hash.update(`\0${Buffer.byteLength(part)}\0`).update(part)
+        if (options.idFrom === 'content' && images.length)
+            for (const image of images) {
+                update('image')
+                for (const { fourCC, data } of parseWebP(image).chunks)
+                    if (IMAGE_CHUNKS.includes(fourCC)) [fourCC, data].forEach(update)
+            }
+        else ['pack', config.pack ?? '', config.author ?? ''].forEach(update)
+        return hash.digest('hex')
+    }
 }
 
 export const defaultBg = {
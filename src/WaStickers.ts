@@ -0,0 +1,70 @@
+import JSZip from 'jszip'
+import { readFile } from 'fs-extra'
+import { Sticker } from './Sticker'
+import { extractMetadata } from './extractMetadata'
+import { IBuiltStickerPack, IWaStickersArchive, IWaStickersEntry } from './Types'
+import RawMetadata from './internal/Metadata/RawMetadata'
+
+const TITLE_FILE = 'title.txt'
+const AUTHOR_FILE = 'author.txt'
+const TRAY_FILE = 'tray.png'
+
+const compareFilenames = (a: string, b: string): number => a.localeCompare(b, undefined, { numeric: true })
+
+/**
+ * Exports a built pack as a `.wastickers` archive (zip holding the WebP stickers, the tray image,
+ * `title.txt` and `author.txt`) for third-party sticker apps
+ * @param {IBuiltStickerPack} pack - The pack to export, as returned by `StickerPack.build()`
+ * @returns {Promise<Buffer>} A promise that resolves to the archive buffer
+ * @example
+ * const archive = await exportWaStickers(await new StickerPack(stickers, { pack: 'My Pack' }).build())
+ * await writeFile('./My Pack.wastickers', archive)
+ */
+export const exportWaStickers = async (pack: IBuiltStickerPack): Promise<Buffer> => {
+    const zip = new JSZip()
+    zip.file(TITLE_FILE, pack.pack)
+    zip.file(AUTHOR_FILE, pack.author)
+    zip.file(TRAY_FILE, pack.trayIcon)
+    pack.stickers.forEach(({ data }, i) => zip.file(`${i + 1}.webp`, data))
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Reads a `.wastickers` archive back into stickers and their metadata
+ * @param {string|Buffer} data - File path or Buffer of the archive
+ * @returns {Promise<IWaStickersArchive>} A promise that resolves to the pack contents
+ * @example
+ * const { pack, author, stickers } = await importWaStickers('./My Pack.wastickers')
+ * const buffer = await stickers[0].sticker.setAuthor('Someone else').build()
+ */
+export const importWaStickers = async (data: string | Buffer): Promise<IWaStickersArchive> => {
+    const zip = await JSZip.loadAsync(Buffer.isBuffer(data) ? data : await readFile(data))
+    const files = Object.values(zip.files).filter((file) => !file.dir)
+    const read = async (filename: string): Promise<string> => (await zip.file(filename)?.async('string'))?.trim() ?? ''
+    const [pack, author] = await Promise.all([read(TITLE_FILE), read(AUTHOR_FILE)])
+    const tray = zip.file(TRAY_FILE) ?? files.find(({ name }) => name.toLowerCase().endsWith('.png'))
+    const stickers: IWaStickersEntry[] = []
+    for (const file of files
+        .filter(({ name }) => name.toLowerCase().endsWith('.webp'))
+        .sort((a, b) => compareFilenames(a.name, b.name))) {
+        const buffer = await file.async('nodebuffer')
+        const metadata = await extractMetadata(buffer)
+        stickers.push({
+            filename: file.name,
+            data: buffer,
+            metadata,
+            // Every field of the metadata, unknown keys included, is written again by `build()`
+            sticker: new Sticker(buffer, {
+                ...RawMetadata.toConfig(metadata),
+                pack: metadata['sticker-pack-name'] ?? pack,
+                author: metadata['sticker-pack-publisher'] ?? author
+            })
+        })
+    }
+    return {
+        pack,
+        author,
+        trayIcon: tray ? await tray.async('nodebuffer') : undefined,
+        stickers
+    }
+}
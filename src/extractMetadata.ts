@@ -1,13 +1,34 @@
 import { Image } from 'node-webpmux'
-import { IRawMetadata } from '.'
+import { IExifData, IRawMetadata } from '.'
+import { MetadataError } from './Errors'
+import { parseExif } from './internal/Metadata/ExifReader'
 
 /**
- * Extracts metadata from a WebP image.
- * @param {Buffer}image - The image buffer to extract metadata from
+ * Reads the EXIF chunk of a WebP image as a TIFF structure, little- or big-endian
+ * @param {Buffer} image - The image buffer to read the EXIF from
+ * @returns {Promise<IExifData>} The byte order, every IFD entry and the sticker metadata (empty without an EXIF chunk)
+ * @throws {ExifError} When the EXIF is not a valid TIFF structure or its sticker tag is not a JSON object
+ * @throws {MetadataError} When the image is not a WebP
+ * @example
+ * const { byteOrder, entries, metadata } = await extractExif(sticker)
+ * const tags = entries.map(({ tag }) => tag.toString(16))
  */
-export const extractMetadata = async (image: Buffer): Promise<Partial<IRawMetadata>> => {
+export const extractExif = async (image: Buffer): Promise<IExifData> => {
     const img = new Image()
-    await img.load(image)
-    const exif = img.exif?.toString('utf-8') ?? '{}'
-    return JSON.parse(exif.substring(exif.indexOf('{'), exif.lastIndexOf('}') + 1) ?? '{}') as IRawMetadata
+    try {
+        await img.load(image)
+    } catch (error) {
+        throw new MetadataError(`Could not read the sticker metadata: ${(error as Error).message}`, error)
+    }
+    if (!img.exif) return { byteOrder: 'little-endian', entries: [], metadata: {} }
+    return parseExif(img.exif)
 }
+
+/**
+ * Extracts metadata from a WebP image.
+ * @param {Buffer}image - The image buffer to extract metadata from
+ * @throws {ExifError} When the EXIF is malformed
+ * @throws {MetadataError} When the image is not a WebP
+ */
+export const extractMetadata = async (image: Buffer): Promise<Partial<IRawMetadata>> =>
+    (await extractExif(image)).metadata
@@ -1,10 +1,22 @@
 import { Sticker } from './Sticker'
 
 export * from './Sticker'
+export * from './StickerPack'
+export * from './WaStickers'
+export * from './ContentsJson'
+export { createStickers } from './Batch'
 export * from './extractMetadata'
+export { retagSticker, retagStickers } from './Retag'
+export { scrubSticker } from './Scrub'
+export { setLogger, consoleLogger } from './Logger'
+export { setCache, MemoryCache, DiskCache } from './Cache'
+export { checkEnvironment, setFfmpegPath, setFfprobePath } from './Environment'
+export * from './Errors'
+export { registerResolver, unregisterResolver } from './Resolvers'
 export * from './Types'
 export { default as StickerMetadata } from './internal/Metadata/StickerMetadata'
 export { default as Exif } from './internal/Metadata/Exif'
 export * from './internal/Metadata/StickerTypes'
 export { WhatsAppValidator, WHATSAPP_LIMITS } from './internal/WhatsAppValidation'
+export { parseWebP } from './internal/WebP'
 export default Sticker
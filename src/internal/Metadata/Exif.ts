@@ -3,15 +3,43 @@ import { TextEncoder } from 'util'
 import { Metadata } from '../../Types'
 import RawMetadata from './RawMetadata'
 
+const CHUNK_HEADER_SIZE = 8
+/** Header and payload of the VP8X chunk, which a simple WebP gains when metadata is added */
+const VP8X_CHUNK_SIZE = 18
+
+/** Sorts the keys of objects, at every depth, so that the JSON does not depend on the order they were set in */
+const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys)
+    if (value && typeof value === 'object')
+        return Object.fromEntries(
+            Object.keys(value)
+                .sort()
+                .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+        )
+    return value
+}
+
 export default class Exif {
     private data: RawMetadata
     private exif: Buffer | null = null
+    private sorted: boolean
     constructor(options: Metadata) {
         this.data = new RawMetadata(options)
+        this.sorted = Boolean(options.deterministic)
+    }
+
+    /**
+     * Bytes the metadata adds to an image: the EXIF chunk, and the VP8X chunk a simple WebP needs to hold it
+     * @param options - Metadata of the sticker
+     */
+    static size = (options: Metadata): number => {
+        // The ID of the deterministic mode is derived once the image is done: 64 hex characters
+        const { length } = new Exif({ ...options, id: options.id ?? '0'.repeat(64) }).build()
+        return CHUNK_HEADER_SIZE + length + (length & 1) + VP8X_CHUNK_SIZE
     }
 
     build = (): Buffer => {
-        const data = JSON.stringify(this.data)
+        const data = JSON.stringify(this.sorted ? sortKeys(this.data) : this.data)
         const exif = Buffer.concat([
             Buffer.from([
                 0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x01, 0x00, 0x41, 0x57, 0x07, 0x00, 0x00, 0x00, 0x00,
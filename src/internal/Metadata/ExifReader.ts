@@ -0,0 +1,92 @@
+import { ExifError } from '../../Errors'
+import { IExifData, IExifEntry, IRawMetadata } from '../../Types'
+
+/** Tag holding the JSON metadata of WhatsApp stickers */
+export const STICKER_TAG = 0x5741
+
+/** Size in bytes of one value of each TIFF field type */
+const TYPE_SIZES: Record<number, number> = {
+    1: 1,
+    2: 1,
+    3: 2,
+    4: 4,
+    5: 8,
+    6: 1,
+    7: 1,
+    8: 2,
+    9: 4,
+    10: 8,
+    11: 4,
+    12: 8,
+    13: 4
+}
+
+const HEADER_SIZE = 8
+const ENTRY_SIZE = 12
+/** IFDs followed at most, so that a loop of offsets ends */
+const MAX_IFDS = 16
+
+/**
+ * Reads the TIFF structure of an EXIF chunk, little- or big-endian, and the JSON of its sticker tag.
+ * The IFDs are followed through their next-IFD offsets. `Exif.build()` (like the tools it imitates) leaves that
+ * offset out and starts the value right after the entries: an offset read from inside a value ends the chain
+ * @param data - Payload of the EXIF chunk, with or without the `Exif\0\0` prefix
+ */
+export const parseExif = (data: Buffer): IExifData => {
+    const tiff = data.toString('latin1', 0, 6) === 'Exif\0\0' ? data.subarray(6) : data
+    if (tiff.length < HEADER_SIZE) throw new ExifError('the TIFF header is truncated', 0)
+    const order = tiff.toString('latin1', 0, 2)
+    if (order !== 'II' && order !== 'MM') throw new ExifError(`unknown byte order '${order}'`, 0)
+    const little = order === 'II'
+    const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset))
+    const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset))
+    const magic = u16(2)
+    if (magic !== 42) throw new ExifError(`unexpected TIFF magic number ${magic}`, 2)
+
+    const entries: IExifEntry[] = []
+    const visited = new Set<number>()
+    /** Ranges of the values read, [start, end) */
+    const values: [number, number][] = []
+    let offset = u32(4)
+    for (let ifd = 0; offset !== 0 && ifd < MAX_IFDS; ifd++) {
+        if (visited.has(offset)) throw new ExifError('the IFDs form a loop', offset)
+        visited.add(offset)
+        if (offset + 2 > tiff.length) throw new ExifError('the IFD is out of bounds', offset)
+        const count = u16(offset)
+        const end = offset + 2 + count * ENTRY_SIZE
+        if (end > tiff.length) throw new ExifError(`the IFD of ${count} entries is truncated`, offset)
+        for (let i = 0; i < count; i++) {
+            const entry = offset + 2 + i * ENTRY_SIZE
+            const tag = u16(entry)
+            const type = u16(entry + 2)
+            const valueCount = u32(entry + 4)
+            // Values of up to 4 bytes are stored in the entry itself. Unknown types are kept as their 4 raw bytes
+            const size = type in TYPE_SIZES ? TYPE_SIZES[type] * valueCount : 4
+            let start = entry + 8
+            if (size > 4) {
+                start = u32(entry + 8)
+                if (start + size > tiff.length)
+                    throw new ExifError(`the value of tag 0x${tag.toString(16)} is out of bounds`, entry)
+                values.push([start, start + size])
+            }
+            entries.push({ tag, type, count: valueCount, value: tiff.subarray(start, start + size), ifd })
+        }
+        // The next-IFD offset is missing when a value starts right after the entries
+        if (end + 4 > tiff.length || values.some(([start, stop]) => end < stop && end + 4 > start)) break
+        offset = u32(end)
+    }
+
+    const sticker = entries.find(({ tag }) => tag === STICKER_TAG)
+    let metadata: Partial<IRawMetadata> = {}
+    if (sticker) {
+        const text = sticker.value.toString('utf-8').replace(/\0+$/, '')
+        try {
+            metadata = JSON.parse(text)
+        } catch (error) {
+            throw new ExifError(`the sticker tag is not valid JSON (${(error as Error).message})`)
+        }
+        if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata))
+            throw new ExifError('the sticker tag is not a JSON object')
+    }
+    return { byteOrder: little ? 'little-endian' : 'big-endian', entries, metadata }
+}
@@ -1,15 +1,62 @@
-import { IRawMetadata, Metadata } from '../../Types'
+import { Categories, IRawMetadata, IStickerConfig, Metadata } from '../../Types'
 import Utils from '../../Utils'
 
+/** Optional text fields of the config and their EXIF keys */
+const TEXT_FIELDS = [
+    ['androidAppStoreLink', 'android-app-store-link'],
+    ['iosAppStoreLink', 'ios-app-store-link'],
+    ['accessibilityText', 'accessibility-text']
+] as const
+
+/** Flags of the config and their EXIF keys, stored as 0 or 1 */
+const FLAG_FIELDS = [
+    ['isAvatar', 'is-avatar-sticker'],
+    ['isFirstParty', 'is-first-party-sticker'],
+    ['isAi', 'is-ai-sticker']
+] as const
+
+/** Keys written from the fields of the config */
+const KNOWN_KEYS = new Set<string>([
+    'emojis',
+    'sticker-pack-id',
+    'sticker-pack-name',
+    'sticker-pack-publisher',
+    ...TEXT_FIELDS.map(([, key]) => key),
+    ...FLAG_FIELDS.map(([, key]) => key)
+])
+
 export default class RawMetadata implements IRawMetadata {
+    [key: string]: unknown
     emojis: string[]
     'sticker-pack-id': string
     'sticker-pack-name': string
     'sticker-pack-publisher': string
     constructor(options: Metadata) {
-        this['sticker-pack-id'] = options.id || Utils.generateStickerID()
+        Object.assign(this, options.extraMetadata)
+        this['sticker-pack-id'] = options.id || Utils.generateStickerID(options)
         this['sticker-pack-name'] = options.pack || ''
         this['sticker-pack-publisher'] = options.author || ''
         this.emojis = options.categories || []
+        for (const [field, key] of TEXT_FIELDS) if (options[field] !== undefined) this[key] = options[field]
+        for (const [field, key] of FLAG_FIELDS) if (options[field] !== undefined) this[key] = options[field] ? 1 : 0
+    }
+
+    /**
+     * Reads the metadata of a sticker back as a config. Unknown keys go to `extraMetadata`,
+     * so that writing the config again keeps them
+     * @param raw - Metadata returned by `extractMetadata`
+     */
+    static toConfig = (raw: Partial<IRawMetadata>): IStickerConfig => {
+        const config: IStickerConfig = {
+            pack: raw['sticker-pack-name'],
+            author: raw['sticker-pack-publisher'],
+            id: raw['sticker-pack-id'],
+            categories: raw.emojis as Categories[] | undefined
+        }
+        for (const [field, key] of TEXT_FIELDS) if (typeof raw[key] === 'string') config[field] = raw[key]
+        for (const [field, key] of FLAG_FIELDS) if (raw[key] !== undefined) config[field] = Boolean(raw[key])
+        const extra = Object.entries(raw).filter(([key]) => !KNOWN_KEYS.has(key))
+        if (extra.length) config.extraMetadata = Object.fromEntries(extra)
+        return config
     }
 }
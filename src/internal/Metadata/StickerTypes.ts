@@ -3,5 +3,8 @@ export enum StickerTypes {
     CROPPED = 'crop',
     FULL = 'full',
     CIRCLE = 'circle',
-    ROUNDED = 'rounded'
+    ROUNDED = 'rounded',
+    STAR = 'star',
+    HEART = 'heart',
+    HEXAGON = 'hexagon'
 }
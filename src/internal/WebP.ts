@@ -0,0 +1,135 @@
+import { IWebPChunk, IWebPFrame, IWebPInfo } from '../Types'
+
+const RIFF_HEADER_SIZE = 12
+const CHUNK_HEADER_SIZE = 8
+
+const fail = (message: string): never => {
+    throw new Error(`Invalid WebP: ${message}`)
+}
+
+/**
+ * Splits a RIFF payload into chunks
+ * @param data - Buffer holding the chunks
+ * @param start - Offset of the first chunk header
+ * @param end - Offset where the chunks end
+ */
+export const readChunks = (data: Buffer, start: number, end: number): IWebPChunk[] => {
+    const chunks: IWebPChunk[] = []
+    let offset = start
+    while (offset < end) {
+        if (offset + CHUNK_HEADER_SIZE > end) fail(`truncated chunk header at offset ${offset}`)
+        const fourCC = data.toString('latin1', offset, offset + 4)
+        const size = data.readUInt32LE(offset + 4)
+        const payload = offset + CHUNK_HEADER_SIZE
+        if (payload + size > end) fail(`chunk '${fourCC}' at offset ${offset} overruns the file`)
+        chunks.push({ fourCC, offset, size, data: data.slice(payload, payload + size) })
+        // Chunks are padded to an even size
+        offset = payload + size + (size & 1)
+    }
+    return chunks
+}
+
+/**
+ * Reads the canvas size from a 'VP8 ' (lossy) bitstream
+ */
+const readVP8Size = (data: Buffer): [number, number] => {
+    if (data.length < 10 || data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) fail('bad VP8 frame header')
+    return [data.readUInt16LE(6) & 0x3fff, data.readUInt16LE(8) & 0x3fff]
+}
+
+/**
+ * Reads the canvas size and alpha hint from a 'VP8L' (lossless) bitstream
+ */
+const readVP8LSize = (data: Buffer): [number, number, boolean] => {
+    if (data.length < 5 || data[0] !== 0x2f) fail('bad VP8L signature')
+    const bits = data.readUInt32LE(1)
+    return [(bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1, ((bits >>> 28) & 1) === 1]
+}
+
+const readFrame = ({ data }: IWebPChunk): IWebPFrame => {
+    if (data.length < 16) fail('ANMF chunk is too short')
+    return {
+        x: data.readUIntLE(0, 3) * 2,
+        y: data.readUIntLE(3, 3) * 2,
+        width: data.readUIntLE(6, 3) + 1,
+        height: data.readUIntLE(9, 3) + 1,
+        duration: data.readUIntLE(12, 3),
+        blend: (data[15] & 0b10) === 0,
+        dispose: (data[15] & 0b01) === 1
+    }
+}
+
+/**
+ * Parses the RIFF container of a WebP file: canvas, animation parameters and per-frame timing
+ * @param {Buffer} data - The WebP buffer
+ * @returns {IWebPInfo} Information read from the chunks
+ * @example
+ * const { animated, duration, frames, loopCount } = parseWebP(await sticker.build())
+ */
+export const parseWebP = (data: Buffer): IWebPInfo => {
+    if (data.length < RIFF_HEADER_SIZE + CHUNK_HEADER_SIZE) fail('file is too short')
+    if (data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP')
+        fail('missing RIFF/WEBP header')
+    const riffSize = data.readUInt32LE(4)
+    if (riffSize + 8 > data.length) fail(`RIFF size ${riffSize} exceeds the buffer`)
+
+    const chunks = readChunks(data, RIFF_HEADER_SIZE, riffSize + 8)
+    if (!chunks.length) fail('no chunks')
+    const info: IWebPInfo = {
+        format: 'lossy',
+        width: 0,
+        height: 0,
+        animated: false,
+        hasAlpha: false,
+        hasICC: false,
+        hasEXIF: false,
+        hasXMP: false,
+        loopCount: 0,
+        backgroundColor: [0, 0, 0, 0],
+        frames: [],
+        duration: 0,
+        chunks
+    }
+
+    const [first] = chunks
+    switch (first.fourCC) {
+        case 'VP8 ': {
+            const [width, height] = readVP8Size(first.data)
+            Object.assign(info, { width, height })
+            break
+        }
+        case 'VP8L': {
+            const [width, height, hasAlpha] = readVP8LSize(first.data)
+            Object.assign(info, { format: 'lossless', width, height, hasAlpha })
+            break
+        }
+        case 'VP8X': {
+            if (first.size < 10) fail('VP8X chunk is too short')
+            const flags = first.data[0]
+            info.format = 'extended'
+            info.hasICC = (flags & 0b100000) !== 0
+            info.hasAlpha = (flags & 0b010000) !== 0
+            info.hasEXIF = (flags & 0b001000) !== 0
+            info.hasXMP = (flags & 0b000100) !== 0
+            info.animated = (flags & 0b000010) !== 0
+            info.width = first.data.readUIntLE(4, 3) + 1
+            info.height = first.data.readUIntLE(7, 3) + 1
+            break
+        }
+        default:
+            fail(`unexpected first chunk '${first.fourCC}'`)
+    }
+
+    if (info.animated) {
+        const anim = chunks.find(({ fourCC }) => fourCC === 'ANIM')
+        if (!anim || anim.size < 6) fail('animated WebP without a valid ANIM chunk')
+        const { data: params } = anim as IWebPChunk
+        // Stored as [blue, green, red, alpha]
+        info.backgroundColor = [params[2], params[1], params[0], params[3]]
+        info.loopCount = params.readUInt16LE(4)
+        info.frames = chunks.filter(({ fourCC }) => fourCC === 'ANMF').map(readFrame)
+        info.duration = info.frames.reduce((total, { duration }) => total + duration, 0)
+    }
+
+    return info
+}
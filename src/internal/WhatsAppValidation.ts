@@ -1,6 +1,7 @@
-import { Categories, IStickerOptions } from '../Types'
+import { Categories, IBuiltStickerPack, IStickerOptions, IWhatsAppPackValidationResult } from '../Types'
 import { fromBuffer } from 'file-type'
 import sharp from 'sharp'
+import { parseWebP } from './WebP'
 
 /** WhatsApp sticker validation result */
 export interface IWhatsAppValidationResult {
@@ -66,6 +67,23 @@ export const WHATSAPP_LIMITS = {
     RECOMMENDED_FILE_SIZE: 15 * 1024 // 15KB recommended
 } as const
 
+/** Characters the WhatsApp sample apps accept in a pack identifier */
+const PACK_ID_PATTERN = /^[A-Za-z0-9_.\- ]+$/
+
+/**
+ * Checks a pack identifier, which also names the folder of the pack in the sample apps
+ * @param id - Pack identifier
+ * @returns The problem, or undefined when the identifier is valid
+ */
+export const packIdError = (id: string): string | undefined => {
+    if (!id) return 'Pack ID is required'
+    if (id.length > WHATSAPP_LIMITS.ID_MAX_LENGTH)
+        return `Pack ID is ${id.length} characters long, WhatsApp allows at most ${WHATSAPP_LIMITS.ID_MAX_LENGTH}`
+    if (!PACK_ID_PATTERN.test(id) || id === '.' || id === '..')
+        return `Pack ID "${id}" may only hold letters, digits, spaces, '_', '-' and '.'`
+    return undefined
+}
+
 /**
  * WhatsApp sticker validation utility class
  */
@@ -124,6 +142,93 @@ export class WhatsAppValidator {
         }
     }
 
+    /**
+     * Validates a built sticker pack against WhatsApp requirements
+     * @param pack - The pack to validate, as returned by `StickerPack.build()`
+     * @returns Validation result
+     */
+    static async validatePack(pack: IBuiltStickerPack): Promise<IWhatsAppPackValidationResult> {
+        const count = pack.stickers.length
+        const result: IWhatsAppPackValidationResult = {
+            isValid: true,
+            errors: [],
+            warnings: [],
+            stickerCount: {
+                count,
+                isValid:
+                    count >= WHATSAPP_LIMITS.MIN_STICKERS_PER_PACK && count <= WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK,
+                min: WHATSAPP_LIMITS.MIN_STICKERS_PER_PACK,
+                max: WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK
+            },
+            trayIcon: { width: 0, height: 0, size: pack.trayIcon.length, isValid: true },
+            stickers: []
+        }
+
+        if (!result.stickerCount.isValid) {
+            result.errors.push(
+                `Pack has ${count} stickers. WhatsApp requires between ${WHATSAPP_LIMITS.MIN_STICKERS_PER_PACK} and ${WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK} stickers per pack`
+            )
+        }
+
+        // Validate tray icon
+        try {
+            const { width = 0, height = 0, format } = await sharp(pack.trayIcon).metadata()
+            result.trayIcon.width = width
+            result.trayIcon.height = height
+            if (format !== 'png') {
+                result.trayIcon.isValid = false
+                result.errors.push('Tray icon must be a PNG image')
+            }
+            if (width !== WHATSAPP_LIMITS.TRAY_ICON_SIZE || height !== WHATSAPP_LIMITS.TRAY_ICON_SIZE) {
+                result.trayIcon.isValid = false
+                result.errors.push(
+                    `Tray icon dimensions ${width}x${height} must be exactly ${WHATSAPP_LIMITS.TRAY_ICON_SIZE}x${WHATSAPP_LIMITS.TRAY_ICON_SIZE} pixels`
+                )
+            }
+        } catch (error) {
+            result.trayIcon.isValid = false
+            result.errors.push(`Failed to read tray icon: ${error instanceof Error ? error.message : String(error)}`)
+        }
+        if (pack.trayIcon.length > WHATSAPP_LIMITS.TRAY_ICON_MAX_SIZE) {
+            result.trayIcon.isValid = false
+            result.errors.push(
+                `Tray icon size ${(pack.trayIcon.length / 1024).toFixed(1)}KB exceeds WhatsApp limit of ${(WHATSAPP_LIMITS.TRAY_ICON_MAX_SIZE / 1024).toFixed(1)}KB`
+            )
+        }
+
+        // Validate every sticker with the pack metadata
+        for (const [i, { data, categories }] of pack.stickers.entries()) {
+            const validation = await this.validateSticker(data, {
+                pack: pack.pack,
+                author: pack.author,
+                id: pack.id,
+                categories
+            })
+            result.stickers.push(validation)
+            validation.errors.forEach((error) => result.errors.push(`Sticker ${i + 1}: ${error}`))
+
+            if (categories.length < WHATSAPP_LIMITS.MIN_CATEGORIES_PER_STICKER) {
+                result.errors.push(
+                    `Sticker ${i + 1}: At least ${WHATSAPP_LIMITS.MIN_CATEGORIES_PER_STICKER} emoji is required per sticker in a pack`
+                )
+            }
+
+            if ((validation.fileSize.type === 'animated') !== pack.animated) {
+                result.errors.push(
+                    `Sticker ${i + 1}: ${validation.fileSize.type} sticker in ${pack.animated ? 'an animated' : 'a static'} pack. WhatsApp rejects packs mixing animated and static stickers`
+                )
+            }
+        }
+
+        const idError = packIdError(pack.id)
+        if (idError) {
+            result.errors.push(idError)
+        }
+
+        result.isValid = result.errors.length === 0
+        return result
+    }
+
     /**
      * Determines if a sticker is animated
      */
@@ -264,18 +369,32 @@ export class WhatsAppValidator {
         result: IWhatsAppValidationResult
     ): Promise<void> {
         try {
-            const metadata = await sharp(buffer).metadata()
-            
-            // Check if it's actually animated
-            if (metadata.pages && metadata.pages > 1) {
-                // Note: Sharp doesn't provide frame duration info for WebP
-                // This is a limitation - full validation would require ffmpeg probe
+            const fileType = await fromBuffer(buffer)
+            if (fileType?.mime !== 'image/webp') {
                 result.warnings.push('Animated sticker detected. Ensure animation duration is ≤10 seconds and frame duration is ≥8ms')
-                
-                // Check frame count as a rough indicator
-                if (metadata.pages > 150) { // Rough estimate: 15fps * 10s = 150 frames
-                    result.warnings.push(`High frame count (${metadata.pages}). Consider reducing frames to keep within 10-second duration limit`)
-                }
+                return
+            }
+
+            const { frames, duration, loopCount } = parseWebP(buffer)
+            result.warnings.push(
+                `Animated sticker detected: ${frames.length} frames, ${(duration / 1000).toFixed(2)}s per loop`
+            )
+
+            if (duration > WHATSAPP_LIMITS.MAX_ANIMATION_DURATION * 1000) {
+                result.errors.push(
+                    `Animation duration ${(duration / 1000).toFixed(2)}s exceeds WhatsApp limit of ${WHATSAPP_LIMITS.MAX_ANIMATION_DURATION} seconds`
+                )
+            }
+
+            const shortFrames = frames.filter((frame) => frame.duration < WHATSAPP_LIMITS.MIN_FRAME_DURATION)
+            if (shortFrames.length > 0) {
+                result.errors.push(
+                    `${shortFrames.length} frame(s) last less than the ${WHATSAPP_LIMITS.MIN_FRAME_DURATION}ms minimum frame duration`
+                )
+            }
+
+            if (loopCount !== 0) {
+                result.warnings.push(`Animation loops ${loopCount} time(s). WhatsApp stickers should loop forever`)
             }
         } catch (error) {
             result.warnings.push(`Could not fully validate animated sticker properties: ${error instanceof Error ? error.message : String(error)}`)
@@ -0,0 +1,114 @@
+import { readFile } from 'fs-extra'
+import { Font, parse } from 'opentype.js'
+import { ICaption } from '../Types'
+
+const DEFAULT_FONT_FAMILY = 'Impact, Anton, "Arial Black", sans-serif'
+/** Average advance of a glyph relative to the font size, used when no font file is given */
+const AVERAGE_GLYPH_WIDTH = 0.6
+const LINE_HEIGHT = 1.15
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const loadFont = async (fontFile: string | Buffer): Promise<Font> => {
+    const data = Buffer.isBuffer(fontFile) ? fontFile : await readFile(fontFile)
+    return parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.length))
+}
+
+/**
+ * Greedy word wrap. Words longer than the line are kept on their own line.
+ */
+const wrapText = (text: string, maxWidth: number, measure: (text: string) => number): string[] =>
+    text.split('\n').flatMap((paragraph) => {
+        const lines: string[] = []
+        let line = ''
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word
+            if (line && measure(candidate) > maxWidth) {
+                lines.push(line)
+                line = word
+            } else line = candidate
+        }
+        return [...lines, line]
+    })
+
+/**
+ * Renders one caption to SVG elements
+ */
+const renderCaption = async (caption: ICaption, width: number, height: number): Promise<string> => {
+    const {
+        text,
+        position = 'bottom',
+        fontFamily = DEFAULT_FONT_FAMILY,
+        fontFile,
+        fill = '#ffffff',
+        stroke = '#000000',
+        wrap = true
+    } = caption
+    const margin = caption.margin ?? Math.round(width * 0.03)
+    const font = fontFile !== undefined ? await loadFont(fontFile) : undefined
+    const measureAt = (size: number) => (line: string) =>
+        font ? font.getAdvanceWidth(line, size) : line.length * size * AVERAGE_GLYPH_WIDTH
+    const maxWidth = width - margin * 2
+
+    // Shrink the text until every line fits in the frame
+    let fontSize = caption.fontSize ?? Math.round(width * 0.1)
+    let lines: string[] = []
+    for (;;) {
+        const measure = measureAt(fontSize)
+        lines = wrap ? wrapText(text, maxWidth, measure) : text.split('\n')
+        const widest = Math.max(...lines.map(measure))
+        if (widest <= maxWidth || fontSize <= 8) break
+        fontSize = Math.max(8, Math.floor(fontSize * Math.min(0.95, maxWidth / widest)))
+    }
+
+    const strokeWidth = caption.strokeWidth ?? Math.max(1, Math.round(fontSize / 12))
+    const ascent = font ? (font.ascender / font.unitsPerEm) * fontSize : fontSize * 0.8
+    const lineHeight = fontSize * LINE_HEIGHT
+    const blockHeight = lineHeight * (lines.length - 1) + fontSize
+    const top =
+        position === 'top' ? margin : position === 'center' ? (height - blockHeight) / 2 : height - margin - blockHeight
+    const baselines = lines.map((_, i) => top + ascent + i * lineHeight)
+
+    // The outline is drawn first, at twice its width, so that it only grows outwards
+    const outline =
+        strokeWidth > 0
+            ? `fill="none" stroke="${escapeXml(stroke)}" stroke-width="${strokeWidth * 2}" stroke-linejoin="round"`
+            : undefined
+    const paint = (element: (attributes: string) => string): string =>
+        (outline ? element(outline) : '') + element(`fill="${escapeXml(fill)}"`)
+
+    if (font) {
+        const d = lines
+            .map((line, i) =>
+                font.getPath(line, (width - font.getAdvanceWidth(line, fontSize)) / 2, baselines[i], fontSize)
+            )
+            .map((path) => path.toPathData(2))
+            .join(' ')
+        return paint((attributes) => `<path d="${d}" ${attributes}/>`)
+    }
+
+    const family = escapeXml(fontFamily)
+    const typography = `x="${width / 2}" text-anchor="middle" font-family="${family}" font-size="${fontSize}"`
+    return lines
+        .map((line, i) => {
+            const y = baselines[i].toFixed(2)
+            return paint((attributes) => `<text ${typography} y="${y}" ${attributes}>${escapeXml(line)}</text>`)
+        })
+        .join('')
+}
+
+/**
+ * Renders caption layers to a transparent overlay the size of one frame
+ * @param captions - Captions to render, drawn in order
+ * @param width - Frame width
+ * @param height - Frame height
+ * @returns SVG buffer of the overlay
+ */
+export const renderCaptions = async (captions: ICaption[], width: number, height: number): Promise<Buffer> => {
+    const layers: string[] = []
+    for (const caption of captions) if (caption.text.trim()) layers.push(await renderCaption(caption, width, height))
+    return Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${layers.join('')}</svg>`
+    )
+}
@@ -0,0 +1,212 @@
+import { FfmpegCommand } from 'fluent-ffmpeg'
+import { unlink } from 'fs-extra'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Writable } from 'stream'
+import { BuildStage, IBuildOptions, IEncodingReport, ILogger, IVideoEncodingReport } from '../Types'
+import { normalizeLogger } from '../Logger'
+import { AbortError, EncodeError, FfmpegMissingError } from '../Errors'
+
+/** `AbortSignal` as implemented by Node (the listeners are missing from the typings of @types/node 16) */
+type Signal = AbortSignal & {
+    addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void
+    removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * Creates a controller also aborted by `signal`, to stop a build for more than one reason
+ * @param signal - Signal of the caller
+ * @returns The controller, and a function removing the listener from `signal` once the build ended
+ */
+export const linkedController = (signal?: AbortSignal): { controller: AbortController; detach: () => void } => {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    if (signal?.aborted) controller.abort()
+    else (signal as Signal | undefined)?.addEventListener('abort', abort, { once: true })
+    return { controller, detach: () => (signal as Signal | undefined)?.removeEventListener('abort', abort) }
+}
+
+/** Reads an ffmpeg timemark (HH:MM:SS.ss) as seconds */
+const parseTimemark = (timemark = ''): number =>
+    timemark.split(':').reduce((seconds, part) => seconds * 60 + (Number(part) || 0), 0)
+
+/**
+ * State of one `Sticker.build()`: cancellation, progress reporting, temporary files and the settings chosen by the encoders
+ */
+export class BuildContext {
+    /** Settings chosen by the static encoder */
+    public encoding?: IEncodingReport
+    /** Settings chosen by the video encoder */
+    public videoEncoding?: IVideoEncodingReport
+    /** Logger of the build */
+    public log: Required<ILogger>
+    /** Last stage reported */
+    public stage?: BuildStage
+
+    private error?: Error
+    private listeners = new Set<(error: Error) => void>()
+    private timer?: NodeJS.Timeout
+    private detach?: () => void
+    private files = new Set<string>()
+    private processes = new Set<Promise<void>>()
+
+    constructor(private options: IBuildOptions = {}) {
+        const { signal, timeout, logger } = options
+        this.log = normalizeLogger(logger)
+        if (signal?.aborted) this.abort(new AbortError('The build was aborted'))
+        else if (signal) {
+            const listener = () => this.abort(new AbortError('The build was aborted', this.stage))
+            ;(signal as Signal).addEventListener('abort', listener, { once: true })
+            this.detach = () => (signal as Signal).removeEventListener('abort', listener)
+        }
+        if (timeout !== undefined)
+            this.timer = setTimeout(
+                () => this.abort(new AbortError(`The build timed out after ${timeout}ms`, this.stage)),
+                timeout
+            )
+    }
+
+    private abort = (error: Error): void => {
+        if (this.error) return
+        this.error = error
+        this.log.warn(error.message)
+        for (const listener of this.listeners) listener(error)
+    }
+
+    /**
+     * Throws when the build was aborted or timed out
+     */
+    public check = (): void => {
+        if (this.error) throw this.error
+    }
+
+    /**
+     * Reports the progress of a stage
+     * @param stage - Current stage
+     * @param percent - Progress of the stage, from 0 to 100
+     * @param attempt - Encoding attempt, starting at 1
+     */
+    public progress = (stage: BuildStage, percent: number, attempt?: number): void => {
+        this.stage = stage
+        this.options.onProgress?.({ stage, percent: Math.round(Math.min(100, Math.max(0, percent))), attempt })
+    }
+
+    /**
+     * Calls `listener` when the build is aborted
+     * @param listener - Receives the abort error
+     * @returns A function removing the listener
+     */
+    public onAbort = (listener: (error: Error) => void): (() => void) => {
+        if (this.error) listener(this.error)
+        else this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    /**
+     * Waits for a promise, or rejects as soon as the build is aborted
+     * @param promise - Work that cannot be interrupted
+     */
+    public race = <T>(promise: Promise<T>): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            if (this.error) return reject(this.error)
+            this.listeners.add(reject)
+            promise.then(resolve, reject).finally(() => this.listeners.delete(reject))
+        })
+
+    /**
+     * Reserves a path for a temporary file, removed by `dispose()` if it still exists
+     * @param extension - Extension of the file, with the dot
+     */
+    public tempFile = (extension = ''): string => {
+        const file = join(
+            this.options.tempDir ?? tmpdir(),
+            `wa-sticker-${Math.random().toString(36).slice(2)}${extension}`
+        )
+        this.files.add(file)
+        return file
+    }
+
+    /**
+     * Removes a temporary file as soon as it is not needed anymore
+     * @param file - Path returned by `tempFile()`
+     */
+    public removeTempFile = async (file: string): Promise<void> => {
+        try {
+            await unlink(file)
+        } catch (error) {
+            // Still open by a killed ffmpeg process (Windows): `dispose()` tries again once it exited
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return
+        }
+        this.files.delete(file)
+    }
+
+    /**
+     * Runs an ffmpeg command, killing it when the build is aborted
+     * @param command - The command to run
+     * @param output - Output file, or a stream receiving the output of ffmpeg
+     * @param progress - Stage to report the progress of, with the duration of the output in seconds
+     */
+    public ffmpeg = (
+        command: FfmpegCommand,
+        output: string | Writable,
+        progress?: { stage: BuildStage; duration: number; attempt?: number }
+    ): Promise<void> => {
+        if (this.error) return Promise.reject(this.error)
+        // Settles when the process is gone, even after an abort: `dispose()` waits for it before removing the files
+        let exited: () => void = () => undefined
+        const running = new Promise<void>((resolve) => (exited = resolve))
+        this.processes.add(running)
+        running.then(() => this.processes.delete(running))
+        return new Promise<void>((resolve, reject) => {
+            const kill = (error: Error) => {
+                command.kill('SIGKILL')
+                reject(error)
+            }
+            this.listeners.add(kill)
+            const settle = (error?: Error) => {
+                exited()
+                this.listeners.delete(kill)
+                if (!error) return resolve()
+                if (this.error) return reject(this.error)
+                this.log.error('ffmpeg failed', { error: error.message })
+                const stage = progress?.stage ?? this.stage
+                reject(
+                    /Cannot find ffmpeg/.test(error.message) || (error as NodeJS.ErrnoException).code === 'ENOENT'
+                        ? new FfmpegMissingError(stage, error)
+                        : new EncodeError(error.message, stage, error)
+                )
+            }
+            if (progress) {
+                const { stage, duration, attempt } = progress
+                this.progress(stage, 0, attempt)
+                command.on('progress', ({ timemark }: { timemark?: string }) =>
+                    this.progress(stage, (parseTimemark(timemark) / duration) * 100, attempt)
+                )
+            }
+            command
+                .on('start', (commandLine: string) => {
+                    this.log.debug('Running ffmpeg', { commandLine })
+                    // Aborted before the process was spawned
+                    if (this.error) command.kill('SIGKILL')
+                })
+                .on('end', () => {
+                    if (progress) this.progress(progress.stage, 100, progress.attempt)
+                    settle()
+                })
+                .on('error', settle)
+            if (typeof output === 'string') command.save(output)
+            else command.pipe(output, { end: true })
+        })
+    }
+
+    /**
+     * Stops the timeout and the signal listener, waits for the ffmpeg processes to exit and removes the temporary files
+     */
+    public dispose = async (): Promise<void> => {
+        if (this.timer) clearTimeout(this.timer)
+        this.detach?.()
+        this.listeners.clear()
+        await Promise.all(this.processes)
+        await Promise.all([...this.files].map(this.removeTempFile))
+    }
+}
@@ -1,41 +1,112 @@
-import sharp, { fit } from 'sharp'
+import sharp, { fit, OverlayOptions, WebpOptions } from 'sharp'
 import videoToGif from './videoToGif'
-import { writeFile } from 'fs-extra'
-import { tmpdir } from 'os'
 import crop from './crop'
+import { getMask, maskedTypes } from './masks'
+import { overlayFrames, readFrames, writeFrames } from './frames'
+import { renderCaptions } from './captions'
+import { encodeToSize } from './targetSize'
+import { hasSegment, trimAnimation } from './segment'
+import { WHATSAPP_LIMITS } from './WhatsAppValidation'
+import { addOutline } from './outline'
+import { BuildContext } from './context'
 import { StickerTypes } from './Metadata/StickerTypes'
+import Exif from './Metadata/Exif'
 import { defaultBg } from '../Utils'
+import { SizeLimitError } from '../Errors'
+import { assertFfmpeg } from '../Environment'
 import { IStickerOptions } from '..'
 
+/**
+ * Size of one frame of the output
+ */
+const frameSize = async (image: Buffer, animated: boolean, resized: boolean): Promise<[number, number]> => {
+    if (resized) return [512, 512]
+    const { width = 512, height = 512, pageHeight } = await sharp(image, { animated }).metadata()
+    return [width, pageHeight ?? height]
+}
+
+/**
+ * Whether an input of this type is converted as an animation, which always has a size limit
+ * @param mime - MIME type of the input
+ */
+export const isAnimatedMime = (mime: string): boolean =>
+    mime.startsWith('video') || mime.includes('gif') || mime.includes('webp')
+
+/**
+ * Largest size in bytes of the sticker, metadata included: the one of `targetSize`, and always one for animations,
+ * since encoding their frames again would otherwise undo the one of the video encoder
+ * @param mime - MIME type of the input
+ * @param options - Sticker options
+ */
+export const sizeLimit = (mime: string, { targetSize, video }: Partial<IStickerOptions>): number | undefined => {
+    const isAnimated = isAnimatedMime(mime)
+    if (targetSize === true) return isAnimated ? WHATSAPP_LIMITS.ANIMATED_MAX_SIZE : WHATSAPP_LIMITS.STATIC_MAX_SIZE
+    return targetSize || (isAnimated ? video?.targetSize ?? WHATSAPP_LIMITS.ANIMATED_MAX_SIZE : undefined)
+}
+
 const convert = async (
     data: Buffer,
     mime: string,
-    { quality = 100, background = defaultBg, type = StickerTypes.DEFAULT, skipReprocessing = false }: IStickerOptions
+    {
+        quality = 100,
+        background = defaultBg,
+        type = StickerTypes.DEFAULT,
+        skipReprocessing = false,
+        mask,
+        borderRadius,
+        outline,
+        shadow,
+        captions = [],
+        targetSize,
+        strictSize = false,
+        video,
+        startTime,
+        endTime,
+        duration,
+        segment,
+        ...metadata
+    }: IStickerOptions,
+    context = new BuildContext()
 ): Promise<Buffer> => {
     const isVideo = mime.startsWith('video')
-    let image = isVideo ? await videoToGif(data) : data
-    const isAnimated = isVideo || mime.includes('gif') || mime.includes('webp')
+    const isAnimated = isAnimatedMime(mime)
+    const range = { startTime, endTime, duration, segment }
+    const isMasked = mask !== undefined || maskedTypes.includes(type)
+    // Checked before anything runs, rather than failing halfway with an ffmpeg error
+    if (isVideo) await assertFfmpeg(true, 'probe')
+    else if (isAnimated && (type === StickerTypes.CROPPED || isMasked)) await assertFfmpeg(false, 'process')
+    let image = isVideo
+        ? await videoToGif(data, { ...video, ...range }, context)
+        : isAnimated && hasSegment(range)
+        ? await trimAnimation(data, range, video?.maxDuration ?? WHATSAPP_LIMITS.MAX_ANIMATION_DURATION)
+        : data
+    if (strictSize && context.videoEncoding?.withinTarget === false) throw new SizeLimitError(context.videoEncoding)
 
     // If skipReprocessing is enabled and we have an optimized video, return as-is
     if (skipReprocessing && isVideo && image.length <= 600 * 1024) {
-        console.log(`📦 Using pre-optimized video without re-processing: ${(image.length / 1024).toFixed(1)}KB`)
+        context.log.info('Using the encoded video without re-processing', { size: image.length })
         return image
     }
 
-    if (isAnimated && ['crop', 'circle', 'rouded'].includes(type)) {
-        const filename = `${tmpdir()}/${Math.random().toString(36)}.webp`
-        await writeFile(filename, image)
-        ;[image, type] = [
-            await crop(filename),
-            type === StickerTypes.CIRCLE
-                ? StickerTypes.CIRCLE
-                : type === StickerTypes.ROUNDED
-                ? StickerTypes.ROUNDED
-                : StickerTypes.DEFAULT
-        ]
+    // The encoder output is already 512x512 and fits the size limit, encoding it again would undo that
+    const needsProcessing =
+        type === StickerTypes.CROPPED ||
+        isMasked ||
+        outline ||
+        shadow ||
+        captions.length > 0 ||
+        (type === StickerTypes.FULL && background !== defaultBg)
+    if (isVideo && !needsProcessing) return image
+
+    context.check()
+    context.progress('process', 0)
+    if (isAnimated && (type === StickerTypes.CROPPED || isMasked)) {
+        image = await crop(image, context)
+        if (!isMasked) type = StickerTypes.DEFAULT
     }
 
     const img = sharp(image, { animated: isAnimated }).toFormat('webp')
+    const shape = await getMask(type, { mask, borderRadius })
 
     switch (type) {
         case StickerTypes.CROPPED:
@@ -51,43 +122,53 @@ const convert = async (
             })
             break
 
-        case StickerTypes.CIRCLE:
-            img.resize(512, 512, {
-                fit: fit.cover
-            }).composite([
-                {
-                    input: Buffer.from(
-                        `<svg width="512" height="512"><circle cx="256" cy="256" r="256" fill="${background}"/></svg>`
-                    ),
-                    blend: 'dest-in',
-                    gravity: 'northeast',
-                    tile: true
-                }
-            ])
-            break
+        default:
+            if (shape)
+                img.resize(512, 512, {
+                    fit: fit.cover
+                })
+    }
 
-        case StickerTypes.ROUNDED:
-            img.resize(512, 512, {
-                fit: fit.cover
-            }).composite([
-                {
-                    input: Buffer.from(
-                        `<svg width="512" height="512"><rect rx="50" ry="50" width="512" height="512" fill="${background}"/></svg>`
-                    ),
-                    blend: 'dest-in',
-                    gravity: 'northeast',
-                    tile: true
-                }
-            ])
-            break
+    // Layers are tiled so that every frame of animated images is cut out and captioned
+    const layers: OverlayOptions[] = shape ? [{ input: shape, blend: 'dest-in', gravity: 'northeast', tile: true }] : []
+    const resized = type === StickerTypes.CROPPED || type === StickerTypes.FULL || shape !== undefined
+    const overlay = captions.length
+        ? await renderCaptions(captions, ...(await frameSize(image, isAnimated, resized)))
+        : undefined
+
+    let encode = (options: WebpOptions) => img.clone().webp(options).toBuffer()
+
+    // Effects following the silhouette are drawn frame by frame on the decoded pixels
+    if (outline || shadow) {
+        if (layers.length) img.composite(layers)
+        let frames = await addOutline(await readFrames(img, image, isAnimated), {
+            outline: outline === true ? {} : outline || undefined,
+            shadow: shadow === true ? {} : shadow || undefined
+        })
+        if (overlay) frames = await overlayFrames(frames, overlay)
+        encode = (options) => writeFrames(frames, options)
+    } else {
+        if (overlay) layers.push({ input: overlay, gravity: 'northwest', tile: true })
+        if (layers.length) img.composite(layers)
+    }
+
+    const limit = sizeLimit(mime, { targetSize, video })
+    if (limit) {
+        const { data, report } = await encodeToSize(encode, limit - Exif.size(metadata), quality, context, isAnimated)
+        context.encoding = report
+        if (strictSize && !report.withinTarget) throw new SizeLimitError(report)
+        context.progress('process', 100)
+        return data
     }
 
-    return await img
-        .webp({
+    const result = await context.race(
+        encode({
             quality,
             lossless: false
         })
-        .toBuffer()
+    )
+    context.progress('process', 100)
+    return result
 }
 
 export default convert
@@ -0,0 +1,163 @@
+import axios from 'axios'
+import { lookup as dnsLookup, LookupAddress } from 'dns'
+import { Agent as HttpAgent } from 'http'
+import { Agent as HttpsAgent } from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { Readable } from 'stream'
+import { DownloadError, StickerError } from '../Errors'
+import { DownloadFailure, IFetchOptions } from '../Types'
+import { BuildContext } from './context'
+
+const defaults = {
+    maxBytes: 50 * 1024 * 1024,
+    timeout: 30000,
+    maxRedirects: 5
+}
+
+const REDIRECTS = [301, 302, 303, 307, 308]
+
+/**
+ * Loopback, private, link-local, shared, multicast and reserved ranges.
+ * `BlockList` checks IPv4-mapped IPv6 addresses against the IPv4 ranges
+ */
+const reserved = new BlockList()
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3]
+] as const)
+    reserved.addSubnet(network, prefix, 'ipv4')
+for (const [network, prefix] of [
+    ['::', 127],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const)
+    reserved.addSubnet(network, prefix, 'ipv6')
+
+/**
+ * Whether an IP address is in a loopback, private or reserved range
+ * @param address - IPv4 or IPv6 address
+ */
+export const isPrivateAddress = (address: string): boolean => {
+    const family = isIP(address)
+    return family !== 0 && reserved.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/** Whether a `Content-Type` matches one of the patterns (`image/*` style wildcards allowed) */
+const isAllowedMime = (contentType: string, patterns: string[]): boolean => {
+    const mime = contentType.split(';')[0].trim().toLowerCase()
+    return patterns.some((pattern) => {
+        const [type, subtype] = pattern.toLowerCase().split('/')
+        return subtype === '*' ? mime.startsWith(`${type}/`) : mime === pattern.toLowerCase()
+    })
+}
+
+/**
+ * Downloads a file with a size cap, an overall timeout and (unless allowed) no access to private addresses.
+ * Redirects are followed one by one so that every hop is checked, and host names are checked once resolved,
+ * so a public name pointing to a private address is blocked too. The headers are not sent to another origin.
+ * @param url - http(s) URL of the file
+ * @param options - Limits of the download
+ * @param context - Build context, aborting it cancels the download
+ */
+export const fetchBuffer = async (
+    url: string,
+    options: IFetchOptions = {},
+    context = new BuildContext()
+): Promise<Buffer> => {
+    const { maxBytes, timeout, maxRedirects } = { ...defaults, ...options }
+    const { allowedMimeTypes, headers = {}, allowPrivateAddresses = false } = options
+    const fail = (reason: DownloadFailure, message: string, status?: number) =>
+        new DownloadError(url, new Error(message), status, reason)
+
+    const lookup = ((hostname, lookupOptions, callback) =>
+        dnsLookup(hostname, lookupOptions, (error, address, family) => {
+            if (error) return callback(error, address, family)
+            // Node 20 asks for every address of the host (`all: true`)
+            const addresses = Array.isArray(address) ? (address as LookupAddress[]) : [{ address, family }]
+            const blocked = addresses.find(({ address }) => isPrivateAddress(address))
+            if (blocked) return callback(fail('blocked', `${hostname} resolves to ${blocked.address}`), address, family)
+            callback(null, address, family)
+        })) as LookupFunction
+    const agents = allowPrivateAddresses
+        ? {}
+        : { httpAgent: new HttpAgent({ lookup }), httpsAgent: new HttpsAgent({ lookup }) }
+
+    const source = axios.CancelToken.source()
+    let body: Readable | undefined
+    let failure: Error | undefined
+    const stop = (error: Error) => {
+        failure = failure ?? error
+        source.cancel(error.message)
+        body?.destroy(error)
+    }
+    const timer = setTimeout(() => stop(fail('timeout', `no complete response after ${timeout}ms`)), timeout)
+    const detach = context.onAbort(stop)
+
+    try {
+        let location = url
+        // Tokens and cookies are meant for the origin of the URL, not for the hosts it redirects to
+        let sent = headers
+        for (let redirects = 0; ; redirects++) {
+            const { protocol, hostname } = new URL(location)
+            if (protocol !== 'http:' && protocol !== 'https:')
+                throw fail('protocol', `unsupported protocol ${protocol}`)
+            // IP addresses are not resolved, the lookup never sees them
+            const host = hostname.replace(/^\[|\]$/g, '')
+            if (!allowPrivateAddresses && isPrivateAddress(host)) throw fail('blocked', `${host} is a private address`)
+
+            const response = await axios.get<Readable>(location, {
+                ...agents,
+                responseType: 'stream',
+                maxRedirects: 0,
+                validateStatus: () => true,
+                headers: sent,
+                cancelToken: source.token
+            })
+            body = response.data
+            const { status } = response
+            if (REDIRECTS.includes(status) && response.headers.location) {
+                body.destroy()
+                if (redirects >= maxRedirects) throw fail('redirects', `more than ${maxRedirects} redirects`)
+                const next = new URL(response.headers.location, location)
+                if (next.origin !== new URL(location).origin) sent = {}
+                location = next.href
+                continue
+            }
+            if (status < 200 || status >= 300) throw fail('status', `the server responded with ${status}`, status)
+
+            const contentType = response.headers['content-type'] ?? 'application/octet-stream'
+            if (allowedMimeTypes && !isAllowedMime(contentType, allowedMimeTypes))
+                throw fail('mime', `${contentType} is not an allowed type`)
+            if (Number(response.headers['content-length']) > maxBytes)
+                throw fail('size', `the file is larger than ${maxBytes} bytes`)
+
+            const chunks: Buffer[] = []
+            let size = 0
+            for await (const chunk of body) {
+                size += chunk.length
+                if (size > maxBytes) throw fail('size', `the file is larger than ${maxBytes} bytes`)
+                chunks.push(chunk)
+            }
+            if (failure) throw failure
+            return Buffer.concat(chunks)
+        }
+    } catch (error) {
+        body?.destroy()
+        if (failure) throw failure
+        if (error instanceof StickerError) throw error
+        throw new DownloadError(url, error, (error as { response?: { status?: number } }).response?.status)
+    } finally {
+        clearTimeout(timer)
+        detach()
+    }
+}
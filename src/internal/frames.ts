@@ -0,0 +1,79 @@
+import sharp, { Sharp, WebpOptions } from 'sharp'
+import { Image } from 'node-webpmux'
+
+/** Decoded RGBA frames of a (possibly animated) image */
+export interface IFrames {
+    width: number
+    height: number
+    /** Raw RGBA pixels of every frame */
+    frames: Buffer[]
+    /** Delay of every frame in milliseconds */
+    delay: number[]
+    /** Number of loops, 0 means forever */
+    loop: number
+}
+
+/**
+ * Decodes every frame of a sharp pipeline to raw RGBA pixels
+ * @param img - The pipeline to run
+ * @param source - The input of the pipeline, read for the animation parameters
+ * @param animated - Whether the input is animated
+ */
+export const readFrames = async (img: Sharp, source: Buffer, animated: boolean): Promise<IFrames> => {
+    const { pages = 1, delay = [], loop = 0 } = animated ? await sharp(source, { animated }).metadata() : {}
+    const { data, info } = await img.clone().ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+    const height = info.height / pages
+    const size = info.width * height * 4
+    return {
+        width: info.width,
+        height,
+        frames: Array.from({ length: pages }, (_, i) => data.slice(i * size, (i + 1) * size)),
+        delay: Array.from({ length: pages }, (_, i) => delay[i] ?? 100),
+        loop
+    }
+}
+
+/**
+ * Encodes raw RGBA frames to a WebP, animated when there is more than one frame
+ * @param frames - The frames to encode
+ * @param options - WebP options used for every frame
+ */
+export const writeFrames = async (
+    { width, height, frames, delay, loop }: IFrames,
+    options: WebpOptions
+): Promise<Buffer> => {
+    const encode = (frame: Buffer) =>
+        sharp(frame, { raw: { width, height, channels: 4 } })
+            .webp(options)
+            .toBuffer()
+    if (frames.length === 1) return await encode(frames[0])
+    const encoded: Buffer[] = []
+    for (const frame of frames) encoded.push(await encode(frame))
+    return await Image.save(null, {
+        width,
+        height,
+        loops: loop,
+        bgColor: [0, 0, 0, 0],
+        frames: await Promise.all(
+            encoded.map((buffer, i) => Image.generateFrame({ buffer, delay: delay[i], blend: false, dispose: false }))
+        )
+    })
+}
+
+/**
+ * Draws an image over every frame
+ * @param frames - The frames to draw on
+ * @param overlay - Image the size of one frame
+ */
+export const overlayFrames = async (frames: IFrames, overlay: Buffer): Promise<IFrames> => {
+    const { width, height } = frames
+    const drawn: Buffer[] = []
+    for (const frame of frames.frames)
+        drawn.push(
+            await sharp(frame, { raw: { width, height, channels: 4 } })
+                .composite([{ input: overlay }])
+                .raw()
+                .toBuffer()
+        )
+    return { ...frames, frames: drawn }
+}
@@ -1,19 +1,20 @@
 import Ffmpeg from 'fluent-ffmpeg'
 import { readFile } from 'fs-extra'
-import { tmpdir } from 'os'
+import { BuildContext } from './context'
 
-const imagesToWebp = async (filename: string): Promise<Buffer> => {
-    const file = await new Promise<string>((resolve) => {
-        const name = `${tmpdir()}/${Math.random().toString(36)}.webp`
-        Ffmpeg(filename)
-            .outputOption('-lavfi split[v],palettegen,[v]paletteuse')
-            .outputOption('-vcodec libwebp')
-            .outputFPS(10)
-            .loop(0)
-            .save(name)
-            .on('end', () => resolve(name))
-    })
-    return await readFile(file)
+const imagesToWebp = async (filename: string, context = new BuildContext()): Promise<Buffer> => {
+    const name = context.tempFile('.webp')
+    const command = Ffmpeg(filename)
+        .outputOption('-lavfi split[v],palettegen,[v]paletteuse')
+        .outputOption('-vcodec libwebp')
+        .outputFPS(10)
+        .loop(0)
+    try {
+        await context.ffmpeg(command, name)
+        return await readFile(name)
+    } finally {
+        await context.removeTempFile(name)
+    }
 }
 
 export default imagesToWebp
@@ -0,0 +1,71 @@
+import sharp from 'sharp'
+import { StickerTypes } from './Metadata/StickerTypes'
+
+const SIZE = 512
+const CENTER = SIZE / 2
+
+/** Sticker types cut out with a mask */
+export const maskedTypes: string[] = [
+    StickerTypes.CIRCLE,
+    StickerTypes.ROUNDED,
+    StickerTypes.STAR,
+    StickerTypes.HEART,
+    StickerTypes.HEXAGON
+]
+
+/**
+ * Points of a regular polygon (or star, when `inner` is set) centered on the sticker
+ * @param corners - Number of outer corners
+ * @param inner - Radius of the inner corners, relative to the outer radius
+ */
+const polygon = (corners: number, inner?: number): string => {
+    const steps = inner === undefined ? corners : corners * 2
+    return Array.from({ length: steps }, (_, i) => {
+        const radius = inner !== undefined && i % 2 === 1 ? CENTER * inner : CENTER
+        const angle = (i / steps) * 2 * Math.PI - Math.PI / 2
+        return `${(CENTER + radius * Math.cos(angle)).toFixed(2)},${(CENTER + radius * Math.sin(angle)).toFixed(2)}`
+    }).join(' ')
+}
+
+const shapes: Record<string, (borderRadius: number) => string> = {
+    [StickerTypes.CIRCLE]: () => `<circle cx="${CENTER}" cy="${CENTER}" r="${CENTER}"/>`,
+    [StickerTypes.ROUNDED]: (borderRadius) =>
+        `<rect rx="${borderRadius}" ry="${borderRadius}" width="${SIZE}" height="${SIZE}"/>`,
+    [StickerTypes.STAR]: () => `<polygon points="${polygon(5, 0.5)}"/>`,
+    [StickerTypes.HEART]: () =>
+        '<path d="M256 480C96 368 0 272 0 160C0 80 64 24 136 24C192 24 232 56 256 96C280 56 320 24 376 24C448 24 512 80 512 160C512 272 416 368 256 480Z"/>',
+    [StickerTypes.HEXAGON]: () => `<polygon points="${polygon(6)}"/>`
+}
+
+const svg = (content: string): Buffer =>
+    Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}"><g fill="#fff">${content}</g></svg>`
+    )
+
+/**
+ * Creates the 512x512 mask of a sticker. Opaque areas of the mask are kept, transparent ones are cut out.
+ * Mask images without an alpha channel are read as luminance (white is kept, black is cut out).
+ * @param type - Sticker type
+ * @param options.mask - Custom mask: SVG path data (in a 512x512 space), an SVG document or an image
+ * @param options.borderRadius - Corner radius of `rounded` stickers
+ * @returns The mask, or undefined when the sticker is not masked
+ */
+export const getMask = async (
+    type: string,
+    { mask, borderRadius = 50 }: { mask?: string | Buffer; borderRadius?: number }
+): Promise<Buffer | undefined> => {
+    if (mask === undefined) return shapes[type] ? svg(shapes[type](borderRadius)) : undefined
+    const source = Buffer.isBuffer(mask)
+        ? mask
+        : mask.trim().startsWith('<svg')
+        ? Buffer.from(mask)
+        : svg(`<path d="${mask.replace(/[^\w\s.,+-]/g, '')}"/>`)
+    const image = () => sharp(source).resize(SIZE, SIZE, { fit: sharp.fit.fill })
+    const { hasAlpha } = await sharp(source).metadata()
+    if (hasAlpha) return await image().png().toBuffer()
+    const luminance = await image().greyscale().extractChannel(0).raw().toBuffer()
+    return await sharp({ create: { width: SIZE, height: SIZE, channels: 3, background: '#fff' } })
+        .joinChannel(luminance, { raw: { width: SIZE, height: SIZE, channels: 1 } })
+        .png()
+        .toBuffer()
+}
@@ -1,8 +1,40 @@
 declare module 'node-webpmux' {
+    export interface Frame {
+        img: Image
+        x?: number
+        y?: number
+        delay?: number
+        blend?: boolean
+        dispose?: boolean
+    }
+
     export class Image {
         constructor()
-        exif: Buffer
+        exif?: Buffer
+        iccp?: Buffer
+        xmp?: Buffer
         load(buffer: Buffer | string): Promise<void>
         save(...args: unknown[]): Promise<Buffer>
+        static generateFrame(options: {
+            path?: string
+            buffer?: Buffer
+            img?: Image
+            x?: number
+            y?: number
+            delay?: number
+            blend?: boolean
+            dispose?: boolean
+        }): Promise<Frame>
+        static save(
+            path: string | null,
+            options: {
+                width: number
+                height: number
+                frames: Frame[]
+                bgColor?: number[]
+                loops?: number
+                delay?: number
+            }
+        ): Promise<Buffer>
     }
 }
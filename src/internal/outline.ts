@@ -0,0 +1,153 @@
+import sharp, { Color } from 'sharp'
+import { IFrames } from './frames'
+import { IOutlineOptions, IShadowOptions } from '../Types'
+import { defaultBg } from '../Utils'
+
+const INF = 1e20
+/** Pixels with at least this alpha belong to the silhouette */
+const ALPHA_THRESHOLD = 128
+
+type RGBA = [number, number, number, number]
+
+const toRGBA = async (color: Color): Promise<RGBA> => {
+    const pixel = await sharp({ create: { width: 1, height: 1, channels: 4, background: color } })
+        .raw()
+        .toBuffer()
+    return [pixel[0], pixel[1], pixel[2], pixel[3]]
+}
+
+/**
+ * Squared euclidean distance transform of one row/column (Felzenszwalb & Huttenlocher)
+ */
+const transform1D = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array): void => {
+    let k = 0
+    v[0] = 0
+    z[0] = -INF
+    z[1] = INF
+    for (let q = 1; q < n; q++) {
+        let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+        while (s <= z[k]) {
+            k--
+            s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+        }
+        k++
+        v[k] = q
+        z[k] = s
+        z[k + 1] = INF
+    }
+    k = 0
+    for (let q = 0; q < n; q++) {
+        while (z[k + 1] < q) k++
+        d[q] = (q - v[k]) * (q - v[k]) + f[v[k]]
+    }
+}
+
+/**
+ * Distance of every pixel to the nearest pixel of the silhouette
+ */
+const distanceToSilhouette = (alpha: Uint8Array, width: number, height: number): Float64Array => {
+    const grid = new Float64Array(width * height)
+    for (let i = 0; i < grid.length; i++) grid[i] = alpha[i] >= ALPHA_THRESHOLD ? 0 : INF
+    const n = Math.max(width, height)
+    const f = new Float64Array(n)
+    const d = new Float64Array(n)
+    const v = new Int32Array(n)
+    const z = new Float64Array(n + 1)
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) f[y] = grid[y * width + x]
+        transform1D(f, height, d, v, z)
+        for (let y = 0; y < height; y++) grid[y * width + x] = d[y]
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) f[x] = grid[y * width + x]
+        transform1D(f, width, d, v, z)
+        for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(d[x])
+    }
+    return grid
+}
+
+/**
+ * Draws `color` with the given coverage under the pixel at `i` ("over" operator with straight alpha)
+ */
+const drawUnder = (pixels: Buffer, i: number, [r, g, b, a]: RGBA, coverage: number): void => {
+    const back = (a / 255) * coverage
+    if (back <= 0) return
+    const front = pixels[i + 3] / 255
+    const out = front + back * (1 - front)
+    pixels[i] = Math.round((pixels[i] * front + r * back * (1 - front)) / out)
+    pixels[i + 1] = Math.round((pixels[i + 1] * front + g * back * (1 - front)) / out)
+    pixels[i + 2] = Math.round((pixels[i + 2] * front + b * back * (1 - front)) / out)
+    pixels[i + 3] = Math.round(out * 255)
+}
+
+/**
+ * Adds a stroke following the alpha silhouette of every frame and/or a drop shadow under it.
+ * The content is scaled down so that the effects fit in the original frame size.
+ * @param frames - Decoded frames
+ * @param options.outline - Stroke options
+ * @param options.shadow - Drop shadow options
+ */
+export const addOutline = async (
+    { width, height, frames, ...animation }: IFrames,
+    { outline, shadow }: { outline?: IOutlineOptions; shadow?: IShadowOptions }
+): Promise<IFrames> => {
+    const thickness = outline ? Math.max(0, outline.thickness ?? 8) : 0
+    const stroke = await toRGBA(outline?.color ?? '#ffffff')
+    const blur = Math.max(0, shadow?.blur ?? 6)
+    const [offsetX, offsetY] = [shadow?.offsetX ?? 4, shadow?.offsetY ?? 4]
+    const shade = await toRGBA(shadow?.color ?? '#000000')
+    const opacity = Math.min(1, Math.max(0, shadow?.opacity ?? 0.5))
+    const padding = Math.ceil(thickness + (shadow ? blur * 2 + Math.max(Math.abs(offsetX), Math.abs(offsetY)) : 0))
+    const raw = { width, height, channels: 4 as const }
+
+    const processed: Buffer[] = []
+    for (const frame of frames) {
+        // Shrink the content to leave room for the stroke and the shadow
+        const pixels =
+            padding > 0 && padding * 2 < Math.min(width, height)
+                ? await sharp(frame, { raw })
+                      .resize(width - padding * 2, height - padding * 2, {
+                          fit: sharp.fit.contain,
+                          background: defaultBg
+                      })
+                      .extend({ top: padding, bottom: padding, left: padding, right: padding, background: defaultBg })
+                      .raw()
+                      .toBuffer()
+                : Buffer.from(frame)
+
+        const silhouette = new Uint8Array(width * height)
+        for (let p = 0; p < silhouette.length; p++) silhouette[p] = pixels[p * 4 + 3]
+
+        if (thickness > 0) {
+            const distance = distanceToSilhouette(silhouette, width, height)
+            for (let p = 0; p < silhouette.length; p++) {
+                // Anti-aliased edge of half a pixel
+                const coverage = Math.min(1, Math.max(0, thickness + 0.5 - distance[p]))
+                drawUnder(pixels, p * 4, stroke, coverage)
+                silhouette[p] = pixels[p * 4 + 3]
+            }
+        }
+
+        if (shadow) {
+            const blurred =
+                blur > 0
+                    ? await sharp(Buffer.from(silhouette), { raw: { width, height, channels: 1 } })
+                          .blur(Math.max(0.3, blur / 2))
+                          .extractChannel(0)
+                          .raw()
+                          .toBuffer()
+                    : Buffer.from(silhouette)
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const [sx, sy] = [x - offsetX, y - offsetY]
+                    if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue
+                    drawUnder(pixels, (y * width + x) * 4, shade, (blurred[sy * width + sx] / 255) * opacity)
+                }
+            }
+        }
+
+        processed.push(pixels)
+    }
+
+    return { width, height, frames: processed, ...animation }
+}
@@ -0,0 +1,162 @@
+import ffmpeg from 'fluent-ffmpeg'
+import sharp from 'sharp'
+import { Writable } from 'stream'
+import { ISegmentOptions } from '../Types'
+import { BuildContext } from './context'
+import { OptionsError } from '../Errors'
+
+/** Size of the grayscale thumbnails compared to score the motion */
+const THUMBNAIL_SIZE = 32
+/** Frames sampled per second of video to score the motion */
+const SAMPLE_RATE = 4
+
+/** Part of a clip, in seconds */
+export interface ISegment {
+    start: number
+    end: number
+}
+
+/** Whether the options ask for a part of the clip */
+export const hasSegment = ({ startTime, endTime, duration, segment }: ISegmentOptions): boolean =>
+    startTime !== undefined || endTime !== undefined || duration !== undefined || segment === 'most-active'
+
+/**
+ * Resolves the range of the clip to search in and the length of the segment to keep
+ * @param total - Duration of the clip in seconds
+ * @param options - Segment options
+ * @param maxDuration - Longest segment, in seconds
+ */
+export const resolveRange = (
+    total: number,
+    { startTime = 0, endTime, duration }: ISegmentOptions,
+    maxDuration = Infinity
+): ISegment & { length: number } => {
+    if (startTime < 0 || (endTime !== undefined && endTime <= startTime))
+        throw new OptionsError(`Invalid segment: ${startTime}s to ${endTime}s`)
+    if (startTime >= total) throw new OptionsError(`startTime (${startTime}s) is after the end of the clip (${total}s)`)
+    const end = Math.min(total, endTime ?? total)
+    return { start: startTime, end, length: Math.min(duration ?? end - startTime, end - startTime, maxDuration) }
+}
+
+/**
+ * Start of the window of `length` seconds with the most motion
+ * @param times - Time of every sample in seconds, in increasing order
+ * @param scores - Motion between every sample and the previous one
+ * @param length - Length of the window in seconds
+ */
+export const mostActiveStart = (times: number[], scores: number[], length: number): number => {
+    let [best, bestScore, sum, end] = [times[0] ?? 0, -1, 0, 0]
+    for (let start = 0; start < times.length; start++) {
+        while (end < times.length && times[end] < times[start] + length) sum += scores[end++]
+        // The motion into the first frame of the window happened before it
+        const score = sum - scores[start]
+        if (score > bestScore) [best, bestScore] = [times[start], score]
+        sum -= scores[start]
+        if (end === times.length) break
+    }
+    return best
+}
+
+/**
+ * Mean absolute difference between every thumbnail and the previous one
+ */
+const motionScores = (thumbnails: Buffer, size: number): number[] => {
+    const scores: number[] = []
+    for (let offset = 0; offset + size <= thumbnails.length; offset += size) {
+        let difference = 0
+        if (offset > 0)
+            for (let i = 0; i < size; i++)
+                difference += Math.abs(thumbnails[offset + i] - thumbnails[offset - size + i])
+        scores.push(difference / size)
+    }
+    return scores
+}
+
+/**
+ * Picks the segment of a video file to keep
+ * @param file - The video
+ * @param total - Duration of the video in seconds
+ * @param options - Segment options
+ * @param maxDuration - Longest segment, in seconds
+ * @param context - Build context
+ */
+export const videoSegment = async (
+    file: string,
+    total: number,
+    options: ISegmentOptions,
+    maxDuration?: number,
+    context = new BuildContext()
+): Promise<ISegment> => {
+    const { start, end, length } = resolveRange(total, options, maxDuration)
+    if (options.segment !== 'most-active' || length >= end - start) return { start, end: start + length }
+
+    // Raw frames are streamed from ffmpeg's stdout, nothing is written to disk
+    const chunks: Buffer[] = []
+    const thumbnails = new Writable({
+        write: (chunk: Buffer, _, callback) => {
+            chunks.push(chunk)
+            callback()
+        }
+    })
+    const command = ffmpeg(file)
+        .inputOptions(['-ss', String(start)])
+        .outputOptions([
+            '-an',
+            '-t',
+            String(end - start),
+            '-vf',
+            `fps=${SAMPLE_RATE},scale=${THUMBNAIL_SIZE}:${THUMBNAIL_SIZE},format=gray`,
+            '-f',
+            'rawvideo'
+        ])
+    await context.ffmpeg(command, thumbnails, { stage: 'segment', duration: end - start })
+    const scores = motionScores(Buffer.concat(chunks), THUMBNAIL_SIZE * THUMBNAIL_SIZE)
+    const times = scores.map((_, i) => start + i / SAMPLE_RATE)
+    const best = Math.min(mostActiveStart(times, scores, length), end - length)
+    context.log.debug('Found the most active segment', { start: best, end: best + length, samples: scores.length })
+    return { start: best, end: best + length }
+}
+
+/**
+ * Keeps the frames of an animated GIF/WebP inside the requested segment
+ * @param image - The animation
+ * @param options - Segment options
+ * @param maxDuration - Longest segment, in seconds
+ * @returns The trimmed animation, a GIF staying a GIF (ffmpeg before 8.0 cannot decode animated WebP) and else WebP
+ */
+export const trimAnimation = async (image: Buffer, options: ISegmentOptions, maxDuration?: number): Promise<Buffer> => {
+    const { pages = 1, delay = [], format } = await sharp(image, { animated: true }).metadata()
+    if (pages < 2) return image
+    // Start time of every frame and the end of the animation, in whole milliseconds so that the sums are exact
+    const times = [0]
+    for (let i = 0; i < pages; i++) times.push(times[i] + (delay[i] ?? 100))
+    const range = resolveRange(times[pages] / 1000, options, maxDuration)
+    const [end, length] = [range.end, range.length].map((seconds) => Math.round(seconds * 1000))
+    let start = Math.round(range.start * 1000)
+    if (options.segment === 'most-active' && length < end - start) {
+        // The height is the one of every frame
+        const thumbnails = await sharp(image, { animated: true })
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'fill' })
+            .greyscale()
+            .extractChannel(0)
+            .raw()
+            .toBuffer()
+        const first = times.findIndex((time) => time >= start)
+        const last = times.findIndex((time) => time >= end)
+        const scores = motionScores(thumbnails, THUMBNAIL_SIZE * THUMBNAIL_SIZE)
+        start = Math.min(mostActiveStart(times.slice(first, last), scores.slice(first, last), length), end - length)
+    }
+
+    // Frames shown during the segment
+    const page = Math.max(
+        0,
+        times.findIndex((_, i) => times[i + 1] > start)
+    )
+    const pagesInSegment = times.slice(0, pages).filter((time) => time >= times[page] && time < start + length).length
+    if (page === 0 && pagesInSegment === pages) return image
+    const count = Math.max(1, pagesInSegment)
+    const trimmed = sharp(image, { animated: true, page, pages: count })
+    // The delays are written again, sharp can keep those of the first frames of the file
+    const animation = { delay: Array.from({ length: count }, (_, i) => delay[page + i] ?? 100) }
+    return await (format === 'gif' ? trimmed.gif(animation) : trimmed.webp({ lossless: true, ...animation })).toBuffer()
+}
@@ -0,0 +1,88 @@
+import { WebpOptions } from 'sharp'
+import { IEncodingReport } from '../Types'
+import { BuildContext } from './context'
+
+/** Strongest compression effort of libwebp, used for every attempt since it only costs time */
+const MAX_EFFORT = 6
+/** Preprocessing levels tried in near-lossless mode, from the best looking */
+const NEAR_LOSSLESS_LEVELS = [80, 60, 40]
+
+type Settings = Pick<IEncodingReport, 'quality' | 'lossless' | 'nearLossless'>
+
+const toWebpOptions = ({ quality, lossless, nearLossless }: Settings): WebpOptions => ({
+    quality,
+    reductionEffort: MAX_EFFORT,
+    lossless,
+    nearLossless
+})
+
+/**
+ * Searches the encoder settings giving the best looking output under `targetSize`.
+ * Lossless and near-lossless encodings are tried first (only when `maxQuality` is 100 and the image is static),
+ * then the highest lossy quality that fits is found by bisection.
+ * When nothing fits, the smallest output is returned with `withinTarget: false`.
+ * @param encode - Encodes the image with the given WebP options
+ * @param targetSize - Maximum size of the output in bytes
+ * @param maxQuality - Highest lossy quality to use
+ * @param context - Build context, checked before every attempt
+ * @param animated - Whether every frame of an animation is encoded, which is too slow for the lossless attempts
+ */
+export const encodeToSize = async (
+    encode: (options: WebpOptions) => Promise<Buffer>,
+    targetSize: number,
+    maxQuality = 100,
+    context = new BuildContext(),
+    animated = false
+): Promise<{ data: Buffer; report: IEncodingReport }> => {
+    const kind = animated ? 'Animated' : 'Static'
+    let attempts = 0
+    const attempt = async (settings: Settings) => {
+        context.check()
+        context.progress('encode', 0, ++attempts)
+        const data = await context.race(encode(toWebpOptions(settings)))
+        context.progress('encode', 100, attempts)
+        context.log.debug(`Encoded ${kind.toLowerCase()} sticker`, {
+            attempt: attempts,
+            ...settings,
+            size: data.length,
+            targetSize
+        })
+        return { settings, data }
+    }
+    const done = ({ settings, data }: { settings: Settings; data: Buffer }) => {
+        const report = { ...settings, targetSize, size: data.length, withinTarget: data.length <= targetSize, attempts }
+        if (report.withinTarget) context.log.info(`${kind} sticker fits the target size`, report)
+        else context.log.warn(`${kind} sticker does not fit the target size, using the smallest output`, report)
+        return { data, report }
+    }
+
+    if (maxQuality >= 100 && !animated) {
+        const lossless = await attempt({ quality: 100, lossless: true, nearLossless: false })
+        if (lossless.data.length <= targetSize) return done(lossless)
+        for (const level of NEAR_LOSSLESS_LEVELS) {
+            const nearLossless = await attempt({
+                quality: level,
+                lossless: true,
+                nearLossless: true
+            })
+            if (nearLossless.data.length <= targetSize) return done(nearLossless)
+        }
+    }
+
+    const lossy = (quality: number) => attempt({ quality, lossless: false, nearLossless: false })
+    let best = await lossy(maxQuality)
+    if (best.data.length <= targetSize) return done(best)
+
+    // Highest quality under the target: `low` always fits (once checked), `high` never does
+    let [low, high] = [1, maxQuality]
+    const lowest = await lossy(low)
+    if (lowest.data.length > targetSize) return done(lowest)
+    best = lowest
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2)
+        const result = await lossy(middle)
+        if (result.data.length <= targetSize) [low, best] = [middle, result]
+        else high = middle
+    }
+    return done(best)
+}
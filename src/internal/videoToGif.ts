@@ -1,193 +1,219 @@
-import ffmpeg from 'fluent-ffmpeg'
-import { writeFile, readFile, unlink } from 'fs-extra'
-import { tmpdir } from 'os'
-import sharp from 'sharp'
-import { fromBuffer } from 'file-type'
+import ffmpeg, { FfprobeData } from 'fluent-ffmpeg'
+import { writeFile, readFile } from 'fs-extra'
+import { ISegmentOptions, IVideoEncodingReport, IVideoOptions, VideoSacrifice } from '../Types'
+import { hasSegment, resolveRange, videoSegment } from './segment'
+import { BuildContext } from './context'
+import { WHATSAPP_LIMITS } from './WhatsAppValidation'
+
+type Settings = Pick<IVideoEncodingReport, 'quality' | 'fps' | 'duration'>
+
+const defaults: Required<IVideoOptions> = {
+    targetSize: WHATSAPP_LIMITS.ANIMATED_MAX_SIZE,
+    maxDuration: WHATSAPP_LIMITS.MAX_ANIMATION_DURATION,
+    minDuration: 1,
+    fps: 15,
+    minFps: 5,
+    maxQuality: 80,
+    minQuality: 10,
+    strategy: ['quality', 'fps', 'duration']
+}
+
+/** Margin kept under the target when the next value is estimated from the size of the last attempt */
+const ESTIMATE_MARGIN = 0.9
+
+const probe = (file: string): Promise<FfprobeData> =>
+    new Promise((resolve, reject) => ffmpeg.ffprobe(file, (error, data) => (error ? reject(error) : resolve(data))))
+
+const parseRate = (rate = ''): number => {
+    const [numerator, denominator = 1] = rate.split('/').map(Number)
+    return denominator ? numerator / denominator : 0
+}
 
 /**
- * Convert video directly to animated WebP following WhatsApp requirements:
- * - Maximum 10 seconds duration
- * - Minimum frame duration of 8ms (we use adaptive fps: 5-12fps)
- * - 512x512 pixels exactly
- * - WebP format with transparent background
- * - File size target under 500KB with adaptive quality
+ * Encodes a video to an animated 512x512 WebP (contained, with transparent padding) under a target size.
+ * The settings are reduced in the order of `strategy`: the quality is found by bisection,
+ * the frame rate and the duration are estimated from the size of the previous attempt.
+ * When a later step makes the video fit, the quality is searched again with the reduced frame rate/duration.
+ * When nothing fits, the smallest output is returned with `withinTarget: false`.
+ * @param data - The video
+ * @param options - Encoder options and the segment of the video to keep
+ * @param context - Build context, receives the chosen settings and what was sacrificed
  */
-const videoToGif = async (data: Buffer): Promise<Buffer> => {
-    const targetSize = 500 * 1024 // 500KB WhatsApp limit
+const videoToGif = async (
+    data: Buffer,
+    options: IVideoOptions & ISegmentOptions = {},
+    context = new BuildContext()
+): Promise<Buffer> => {
+    const { targetSize, maxDuration, minDuration, minFps, maxQuality, minQuality, strategy } = {
+        ...defaults,
+        ...options
+    }
+    // ffprobe and most containers need to seek, the video is written to a temporary file
+    const video = context.tempFile('.video')
+    await writeFile(video, data)
 
-    // Pre-check: If input is already a WebP that meets requirements, return as-is
-    try {
-        const fileType = await fromBuffer(data)
-        if (fileType?.mime === 'image/webp') {
-            console.log('🔍 Input is already WebP, checking WhatsApp compliance...')
-            
-            // Check file size
-            const sizeKB = (data.length / 1024).toFixed(1)
-            console.log(`📏 Current size: ${sizeKB}KB`)
-            
-            if (data.length <= targetSize) {
-                // Check dimensions using Sharp
-                try {
-                    const metadata = await sharp(data).metadata()
-                    const isCorrectSize = metadata.width === 512 && metadata.height === 512
-                    const isAnimated = metadata.pages && metadata.pages > 1
-                    
-                    if (isCorrectSize) {
-                        if (isAnimated) {
-                            // For animated WebP, we can't easily check duration without ffprobe
-                            // But if size and dimensions are good, likely compliant
-                            console.log(`✅ Input animated WebP meets requirements: ${sizeKB}KB, 512x512px, ${metadata.pages} frames`)
-                        } else {
-                            console.log(`✅ Input static WebP meets requirements: ${sizeKB}KB, 512x512px`)
-                        }
-                        return data
-                    } else {
-                        console.log(`📐 Dimensions don't match: ${metadata.width}x${metadata.height} (need 512x512)`)
-                    }
-                } catch (sharpError) {
-                    console.log('📝 Sharp metadata check failed, proceeding with conversion')
-                }
-            } else {
-                console.log(`📦 File too large: ${sizeKB}KB > ${targetSize / 1024}KB limit`)
-            }
+    let attempts = 0
+    let startTime = 0
+    const encode = async ({ quality, fps, duration }: Settings): Promise<Buffer> => {
+        attempts++
+        const webp = context.tempFile('.webp')
+        const command = ffmpeg(video)
+            .inputOptions(['-ss', String(startTime)])
+            .outputOptions([
+                '-an',
+                '-vsync',
+                '0',
+                '-vcodec',
+                'libwebp',
+                // Infinite loop (WhatsApp requirement)
+                '-loop',
+                '0',
+                '-t',
+                String(duration),
+                '-preset',
+                'default',
+                '-compression_level',
+                '6',
+                '-q:v',
+                String(quality),
+                '-auto-alt-ref',
+                '0',
+                '-metadata:s:v:0',
+                'alpha_mode=1',
+                '-vf',
+                [
+                    `fps=${fps}`,
+                    "scale='if(gte(iw,ih),512,-1)':'if(gte(ih,iw),512,-1)':flags=lanczos",
+                    'pad=512:512:(ow-iw)/2:(oh-ih)/2:color=0x00000000@0'
+                ].join(',')
+            ])
+        try {
+            await context.ffmpeg(command, webp, { stage: 'encode', duration, attempt: attempts })
+            const buffer = await readFile(webp)
+            context.log.debug('Encoded video', {
+                attempt: attempts,
+                quality,
+                fps,
+                duration,
+                size: buffer.length,
+                targetSize
+            })
+            return buffer
+        } finally {
+            await context.removeTempFile(webp)
         }
-    } catch (error) {
-        console.log('📝 Pre-check failed, proceeding with conversion:', error instanceof Error ? error.message : String(error))
     }
 
-    console.log('🔄 Converting video with adaptive optimization...')
-    
-    // Quick video analysis to avoid unnecessary conversion
-    const filename = `${tmpdir()}/${Math.random().toString(36)}`
-    const [video] = ['video'].map((ext) => `${filename}.${ext}`)
-    await writeFile(video, data)
-    
-    // Try to get video info to see if we can skip conversion
     try {
-        const videoInfo = await new Promise<any>((resolve, reject) => {
-            ffmpeg.ffprobe(video, (err, metadata) => {
-                if (err) reject(err)
-                else resolve(metadata)
-            })
+        context.progress('probe', 0)
+        // Without the probe, the encoder falls back to the defaults (unless the build was aborted)
+        const info = await context.race(probe(video)).catch(() => {
+            context.check()
+            return undefined
         })
-        
-        const videoStream = videoInfo.streams.find((s: any) => s.codec_type === 'video')
-        if (videoStream) {
-            const duration = parseFloat(videoStream.duration) || parseFloat(videoInfo.format.duration) || 0
-            const width = videoStream.width
-            const height = videoStream.height
-            
-            console.log(`📊 Input video: ${width}x${height}, ${duration.toFixed(1)}s`)
-            
-            // If video is already small enough and good dimensions, use minimal conversion
-            if (data.length <= targetSize * 0.8 && width === 512 && height === 512 && duration <= 10) {
-                console.log('🎯 Input video already close to requirements, using minimal conversion')
+        context.progress('probe', 100)
+        const stream = info?.streams.find(({ codec_type }) => codec_type === 'video')
+        const sourceDuration = Number(stream?.duration) || Number(info?.format.duration) || maxDuration
+        const sourceFps = parseRate(stream?.avg_frame_rate) || parseRate(stream?.r_frame_rate) || defaults.fps
+        context.log.debug('Probed video', { duration: sourceDuration, fps: sourceFps, probed: info !== undefined })
+        // Length of the clip asked for, before `maxDuration` applies
+        const wanted = hasSegment(options) ? resolveRange(sourceDuration, options).length : sourceDuration
+        if (hasSegment(options))
+            startTime = (await videoSegment(video, sourceDuration, options, maxDuration, context)).start
+        const requested: Settings = {
+            quality: maxQuality,
+            fps: Math.max(minFps, Math.min(options.fps ?? defaults.fps, sourceFps)),
+            duration: Math.min(wanted, maxDuration)
+        }
+
+        let settings = { ...requested }
+        let output = await encode(settings)
+        let smallest = { settings, output }
+        const fits = (buffer: Buffer) => buffer.length <= targetSize
+        const attempt = async (next: Settings) => {
+            const buffer = await encode(next)
+            if (buffer.length < smallest.output.length) smallest = { settings: next, output: buffer }
+            return buffer
+        }
+
+        /** Highest quality that fits with the current frame rate and duration */
+        const searchQuality = async () => {
+            let [low, high] = [minQuality, maxQuality]
+            let best: Buffer | undefined
+            while (low <= high) {
+                const quality = Math.floor((low + high) / 2)
+                const buffer = await attempt({ ...settings, quality })
+                if (fits(buffer)) [best, low, settings] = [buffer, quality + 1, { ...settings, quality }]
+                else {
+                    high = quality - 1
+                    // When nothing fits, the last attempt is the lowest quality
+                    if (!best) [output, settings] = [buffer, { ...settings, quality }]
+                }
             }
+            return best
         }
-    } catch (probeError) {
-        console.log('📝 Video analysis failed, proceeding with full conversion')
-    }
-    
-    // Quality levels to try, from best to worst
-    // If input is already good, start with higher quality
-    const inputSizeKB = data.length / 1024
-    const startFromHighQuality = inputSizeKB <= 600 // If input is already reasonably sized
-    
-    const qualityLevels = [
-        ...(startFromHighQuality ? [{ quality: 70, fps: 12, duration: 10, compression: 4, method: 4 }] : []),
-        { quality: 50, fps: 10, duration: 10, compression: 5, method: 4 },
-        { quality: 40, fps: 8, duration: 6, compression: 6, method: 6 },
-        { quality: 30, fps: 6, duration: 5, compression: 6, method: 6 },
-        { quality: 25, fps: 5, duration: 4, compression: 6, method: 6 },
-    ]
-    
-    if (startFromHighQuality) {
-        console.log(`🎯 Input size ${inputSizeKB.toFixed(1)}KB is reasonable, trying higher quality first`)
-    }
 
-    let result: Buffer | null = null
-    
-    for (let i = 0; i < qualityLevels.length; i++) {
-        const settings = qualityLevels[i]
-        const webpFile = `${filename}_q${settings.quality}.webp`
-        
-        try {
-            await new Promise<void>((resolve, reject) => {
-                const cmd = ffmpeg(video)
-                    .outputOptions([
-                        '-an', // Remove audio
-                        '-vsync', '0', // Variable frame rate
-                        '-vcodec', 'libwebp', // WebP codec
-                        '-loop', '0', // Infinite loop (WhatsApp requirement)
-                        '-t', String(settings.duration), // Duration limit for size control
-                        '-preset', 'default',
-                        '-compression_level', String(settings.compression), // WebP compression (0-6)
-                        '-q:v', String(settings.quality), // Quality level
-                        '-method', String(settings.method), // Compression method (0-6, higher = smaller)
-                        '-auto-alt-ref', '0', // Disable alt-ref frames for better transparency
-                        '-metadata:s:v:0', 'alpha_mode=1', // Enable alpha channel support
-                        // Optimized video filter chain for small file size with transparency:
-                        '-vf',
-                        [
-                            `fps=${settings.fps}`, // Adaptive frame rate (>> 8ms minimum requirement)
-                            // Smart scaling that preserves aspect ratio without forcing padding
-                            // For portrait videos (h > w): fit height to 512, center horizontally with transparency
-                            // For landscape videos (w > h): fit width to 512, center vertically with transparency
-                            'scale=\'if(gte(iw,ih),512,-1)\':\'if(gte(ih,iw),512,-1)\':flags=lanczos', // High quality scaling
-                            'pad=512:512:(ow-iw)/2:(oh-ih)/2:color=0x00000000@0', // Center with fully transparent padding
-                            ...(i > 1 ? ['mpdecimate=hi=64*12:lo=64*5:frac=0.33'] : []) // Remove duplicate frames on lower qualities
-                        ].filter(Boolean).join(',')
-                    ])
+        /** Lowers the frame rate or the duration until the output fits or the minimum is reached */
+        const reduce = async (key: 'fps' | 'duration', minimum: number) => {
+            while (settings[key] > minimum) {
+                const ratio = (targetSize / output.length) * ESTIMATE_MARGIN
+                const value = Math.max(minimum, Math.min(settings[key] * ratio, settings[key] * 0.9))
+                settings = {
+                    ...settings,
+                    [key]: key === 'fps' ? Math.max(minimum, Math.floor(value)) : Math.round(value * 100) / 100
+                }
+                output = await attempt(settings)
+                if (fits(output)) return output
+            }
+            return undefined
+        }
 
-                cmd.save(webpFile)
-                   .on('end', resolve)
-                   .on('error', reject)
-            })
+        const reducers: Record<VideoSacrifice, () => Promise<Buffer | undefined>> = {
+            quality: searchQuality,
+            fps: () => reduce('fps', minFps),
+            duration: () => reduce('duration', Math.min(minDuration, requested.duration))
+        }
 
-            const buffer = await readFile(webpFile)
-            
-            // Cleanup this attempt's file
-            try {
-                await unlink(webpFile)
-            } catch {}
-            
-            const sizeKB = (buffer.length / 1024).toFixed(1)
-            console.log(`Video conversion attempt ${i + 1}: Quality ${settings.quality}, Size ${sizeKB}KB`)
-            
-            // If this quality level produces a file under the target size, use it
-            if (buffer.length <= targetSize) {
-                result = buffer
-                console.log(`✅ Successfully converted video to ${sizeKB}KB (under ${targetSize / 1024}KB limit)`)
+        if (!fits(output)) {
+            let result: Buffer | undefined
+            for (const [i, step] of strategy.entries()) {
+                result = await reducers[step]()
+                if (!result) continue
+                output = result
+                // Win back the quality lowered by an earlier step
+                if (strategy.slice(0, i).includes('quality')) {
+                    const fitting = { settings, output }
+                    const better = await searchQuality()
+                    if (better) output = better
+                    else [settings, output] = [fitting.settings, fitting.output]
+                }
                 break
             }
-            
-            // If this is our last attempt, use it anyway (better than failing)
-            if (i === qualityLevels.length - 1) {
-                result = buffer
-                console.log(`⚠️  Using final attempt: ${sizeKB}KB (over ${targetSize / 1024}KB limit)`)
-            }
-            
-        } catch (error) {
-            console.warn(`❌ Failed at quality ${settings.quality}:`, error instanceof Error ? error.message : error)
-            
-            // If this is our last attempt and we failed, throw
-            if (i === qualityLevels.length - 1) {
-                throw error
-            }
-            continue
+            if (!result) [settings, output] = [smallest.settings, smallest.output]
         }
-    }
 
-    // Cleanup original video file
-    try {
-        await unlink(video)
-    } catch {}
-
-    if (!result) {
-        throw new Error('Failed to convert video with any quality settings')
+        const sacrificed: VideoSacrifice[] = []
+        if (settings.quality < requested.quality) sacrificed.push('quality')
+        if (settings.fps < requested.fps) sacrificed.push('fps')
+        if (settings.duration < wanted) sacrificed.push('duration')
+        const report = {
+            ...settings,
+            startTime,
+            targetSize,
+            size: output.length,
+            withinTarget: fits(output),
+            sourceDuration,
+            sourceFps,
+            sacrificed,
+            attempts
+        }
+        context.videoEncoding = report
+        if (report.withinTarget) context.log.info('Video fits the target size', report)
+        else context.log.warn('Video does not fit the target size, using the smallest output', report)
+        return output
+    } finally {
+        await context.removeTempFile(video)
     }
-
-    return result
 }
 
 export default videoToGif
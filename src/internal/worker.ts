@@ -0,0 +1,102 @@
+import { parentPort, workerData } from 'worker_threads'
+import * as errors from '../Errors'
+import { setFfmpegPath, setFfprobePath } from '../Environment'
+import { Sticker } from '../Sticker'
+import { IEncodingReport, IProgressEvent, IStickerOptions, IVideoEncodingReport, LogLevel } from '../Types'
+
+/** Conversion sent to a worker. Its timeout is enforced by the main thread, which aborts it */
+export interface IWorkerJob {
+    data: Uint8Array
+    options: Partial<IStickerOptions>
+    tempDir?: string
+    /** Sends back the image before its metadata, for the cache of the main thread */
+    cache?: boolean
+    /** Paths set in the main thread with `setFfmpegPath` and `setFfprobePath` */
+    paths?: { ffmpeg?: string; ffprobe?: string }
+}
+
+/** Messages sent by a worker */
+export type WorkerMessage =
+    | { type: 'progress'; event: IProgressEvent }
+    | { type: 'log'; level: LogLevel; message: string; fields?: Record<string, unknown> }
+    | {
+          type: 'result'
+          data: Uint8Array
+          image?: Uint8Array
+          encoding?: IEncodingReport
+          videoEncoding?: IVideoEncodingReport
+      }
+    | { type: 'error'; error: Record<string, unknown> }
+
+/**
+ * Copies the properties of an error, which lose their class when sent to another thread
+ */
+export const serializeError = (error: unknown): Record<string, unknown> => {
+    const { name, message, stack } = error instanceof Error ? error : new Error(String(error))
+    const { cause, ...fields } = error as Record<string, unknown>
+    return { ...fields, name, message, stack, cause: cause instanceof Error ? serializeError(cause) : undefined }
+}
+
+/**
+ * Recreates an error sent by a worker, with the class of the library error it was
+ */
+export const deserializeError = ({ cause, ...fields }: Record<string, unknown>): errors.StickerError => {
+    const classes = errors as unknown as Record<string, typeof errors.StickerError>
+    const Class = classes[fields.name as string] ?? errors.StickerError
+    const error = Object.assign(Object.create(Class.prototype), fields)
+    if (cause) error.cause = Object.assign(new Error(), cause)
+    return error
+}
+
+/** `workerData` of the workers started by `createStickers()` */
+export const WORKER_DATA = 'wa-sticker-formatter'
+
+/** Makes a Buffer again of an option sent to the thread, which arrives as a plain `Uint8Array` */
+const toBuffer = <T>(value: T): T =>
+    (value instanceof Uint8Array ? Buffer.from(value.buffer, value.byteOffset, value.byteLength) : value) as T
+
+/**
+ * Restores the Buffer options of a job: the custom mask and the font files of the captions
+ */
+const restoreBuffers = ({ mask, captions, ...options }: Partial<IStickerOptions>): Partial<IStickerOptions> => ({
+    ...options,
+    ...(mask !== undefined && { mask: toBuffer(mask) }),
+    ...(captions && { captions: captions.map((caption) => ({ ...caption, fontFile: toBuffer(caption.fontFile) })) })
+})
+
+const post = (message: WorkerMessage) => parentPort?.postMessage(message)
+
+const controller = { current: new AbortController() }
+
+// Workers run one conversion at a time, `abort` stops the current one
+if (workerData === WORKER_DATA)
+    parentPort?.on('message', async (message: IWorkerJob | 'abort') => {
+        if (message === 'abort') return controller.current.abort()
+        controller.current = new AbortController()
+        const { data, options, tempDir, cache, paths = {} } = message
+        if (paths.ffmpeg) setFfmpegPath(paths.ffmpeg)
+        if (paths.ffprobe) setFfprobePath(paths.ffprobe)
+        const sticker = new Sticker(Buffer.from(data.buffer, data.byteOffset, data.byteLength), restoreBuffers(options))
+        const log = (level: LogLevel) => (message: string, fields?: Record<string, unknown>) =>
+            post({ type: 'log', level, message, fields })
+        let image: Buffer | undefined
+        try {
+            const result = await sticker.build({
+                signal: controller.current.signal,
+                tempDir,
+                // Misses every time and keeps what would be stored
+                cache: cache ? { get: () => undefined, set: (_, data) => void (image = data) } : false,
+                onProgress: (event) => post({ type: 'progress', event }),
+                logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') }
+            })
+            post({
+                type: 'result',
+                data: result,
+                image,
+                encoding: sticker.encoding,
+                videoEncoding: sticker.videoEncoding
+            })
+        } catch (error) {
+            post({ type: 'error', error: serializeError(error) })
+        }
+    })
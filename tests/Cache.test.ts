@@ -0,0 +1,124 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { mkdtemp, readdir, remove } from 'fs-extra'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sharp from 'sharp'
+import Sticker, { createStickers, DiskCache, extractMetadata, IStickerCache, MemoryCache } from '../src'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+/** Memory cache counting its reads and writes */
+const counting = () => {
+    const cache = new MemoryCache()
+    const counts = { hits: 0, misses: 0, sets: 0 }
+    const store: IStickerCache = {
+        get: (key) => {
+            const data = cache.get(key)
+            counts[data ? 'hits' : 'misses']++
+            return data
+        },
+        set: (key, data) => {
+            counts.sets++
+            cache.set(key, data)
+        }
+    }
+    return { store, counts }
+}
+
+describe('Cache', () => {
+    describe('MemoryCache', () => {
+        it('should evict the least recently used stickers over maxBytes', () => {
+            const cache = new MemoryCache({ maxBytes: 30 })
+            cache.set('a', Buffer.alloc(10))
+            cache.set('b', Buffer.alloc(10))
+            cache.set('c', Buffer.alloc(10))
+            assert.ok(cache.get('a'))
+            cache.set('d', Buffer.alloc(10))
+            assert.equal(cache.get('b'), undefined)
+            assert.ok(cache.get('a') && cache.get('c') && cache.get('d'))
+            assert.equal(cache.bytes, 30)
+        })
+
+        it('should expire stickers after the ttl', async () => {
+            const cache = new MemoryCache({ ttl: 20 })
+            cache.set('a', Buffer.alloc(10))
+            assert.ok(cache.get('a'))
+            await sleep(40)
+            assert.equal(cache.get('a'), undefined)
+            assert.equal(cache.bytes, 0)
+        })
+    })
+
+    describe('DiskCache', () => {
+        let directory: string
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), 'wa-sticker-cache-'))
+        })
+
+        afterEach(() => remove(directory))
+
+        it('should keep stickers as files, evicting over maxEntries', async () => {
+            const cache = new DiskCache(directory, { maxEntries: 2 })
+            await cache.set('a', Buffer.from('a'))
+            await cache.set('b', Buffer.from('b'))
+            await sleep(10)
+            assert.deepEqual(await new DiskCache(directory).get('a'), Buffer.from('a'))
+            await cache.set('c', Buffer.from('c'))
+            assert.deepEqual((await readdir(directory)).sort(), ['a.webp', 'c.webp'])
+        })
+
+        it('should expire stickers after the ttl', async () => {
+            const cache = new DiskCache(directory, { ttl: 20 })
+            await cache.set('a', Buffer.from('a'))
+            await sleep(40)
+            assert.equal(await cache.get('a'), undefined)
+            assert.deepEqual(await readdir(directory), [])
+        })
+    })
+
+    describe('Builds', () => {
+        it('should reuse the conversion when only the metadata changes', async () => {
+            const { store, counts } = counting()
+            await new Sticker(svg, { pack: 'First' }).build({ cache: store })
+            const second = await new Sticker(svg, { pack: 'Second' }).build({ cache: store })
+            assert.deepEqual(counts, { hits: 1, misses: 1, sets: 1 })
+            assert.equal((await extractMetadata(second))['sticker-pack-name'], 'Second')
+            await new Sticker(svg, { quality: 50 }).build({ cache: store })
+            assert.equal(counts.misses, 2)
+        })
+
+        it('should reuse the conversion of an animation when only the metadata changes', async () => {
+            const { store, counts } = counting()
+            const gif = await sharp({ create: { width: 64, height: 64, channels: 4, background: '#ff0000' } })
+                .gif()
+                .toBuffer()
+            await new Sticker(gif, { pack: 'First' }).build({ cache: store })
+            const second = await new Sticker(gif, { pack: 'A much longer pack name', author: 'Someone' }).build({
+                cache: store
+            })
+            assert.deepEqual(counts, { hits: 1, misses: 1, sets: 1 })
+            assert.equal((await extractMetadata(second))['sticker-pack-name'], 'A much longer pack name')
+        })
+
+        it('should not fail the build when the cache fails', async () => {
+            const broken: IStickerCache = {
+                get: () => Promise.reject(new Error('offline')),
+                set: () => Promise.reject(new Error('offline'))
+            }
+            assert.ok(await new Sticker(svg).build({ cache: broken }))
+        })
+
+        it('should share the cache with the worker threads of a batch', async () => {
+            const { store, counts } = counting()
+            await createStickers([svg], { workers: true, cache: store })
+            const [result] = await createStickers([svg], { cache: store })
+            assert.equal(result.data?.toString('latin1', 8, 12), 'WEBP')
+            assert.deepEqual(counts, { hits: 1, misses: 1, sets: 1 })
+        })
+    })
+})
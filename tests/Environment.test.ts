@@ -0,0 +1,42 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import sharp from 'sharp'
+import Sticker, { checkEnvironment, FfmpegMissingError, setFfmpegPath, StickerTypes } from '../src'
+
+describe('Environment', () => {
+    afterEach(() => setFfmpegPath())
+
+    it('should report the WebP support of sharp', async () => {
+        const { sharp: report } = await checkEnvironment()
+        assert.equal(report.webp, true)
+        assert.ok(report.libvips)
+    })
+
+    it('should report an ffmpeg that cannot be found', async () => {
+        setFfmpegPath('/nonexistent/ffmpeg')
+        const { ffmpeg, ok, problems } = await checkEnvironment()
+        assert.equal(ffmpeg.found, false)
+        assert.equal(ffmpeg.libwebp, false)
+        assert.equal(ok, false)
+        assert.ok(problems.some((problem) => problem.includes('/nonexistent/ffmpeg')))
+    })
+
+    it('should fail before converting an animation when ffmpeg is missing', async () => {
+        const gif = await sharp({ create: { width: 64, height: 64, channels: 4, background: '#ff0000' } })
+            .toFormat('gif')
+            .toBuffer()
+        setFfmpegPath('/nonexistent/ffmpeg')
+        const stages: string[] = []
+        await assert.rejects(
+            new Sticker(gif, { type: StickerTypes.CROPPED }).build({ onProgress: ({ stage }) => stages.push(stage) }),
+            (error: unknown) => {
+                assert.ok(error instanceof FfmpegMissingError)
+                assert.equal(error.code, 'FFMPEG_MISSING')
+                assert.equal(error.stage, 'process')
+                return true
+            }
+        )
+        assert.ok(!stages.includes('process'))
+    })
+})
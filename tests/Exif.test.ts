@@ -0,0 +1,108 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { Image } from 'node-webpmux'
+import Sticker, { ExifError, extractExif, extractMetadata } from '../src'
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+/** Builds a TIFF with one IFD holding the entries, their long values after the next-IFD offset */
+const tiff = (littleEndian: boolean, entries: [tag: number, type: number, value: Buffer][]): Buffer => {
+    const u16 = (value: number) => {
+        const buffer = Buffer.alloc(2)
+        littleEndian ? buffer.writeUInt16LE(value) : buffer.writeUInt16BE(value)
+        return buffer
+    }
+    const u32 = (value: number) => {
+        const buffer = Buffer.alloc(4)
+        littleEndian ? buffer.writeUInt32LE(value) : buffer.writeUInt32BE(value)
+        return buffer
+    }
+    let valueOffset = 8 + 2 + entries.length * 12 + 4
+    const values: Buffer[] = []
+    const ifd = entries.map(([tag, type, value]) => {
+        const count = type === 3 ? value.length / 2 : value.length
+        let field = Buffer.concat([value, Buffer.alloc(4)]).subarray(0, 4)
+        if (value.length > 4) {
+            field = u32(valueOffset)
+            valueOffset += value.length
+            values.push(value)
+        }
+        return Buffer.concat([u16(tag), u16(type), u32(count), field])
+    })
+    return Buffer.concat([
+        Buffer.from(littleEndian ? 'II' : 'MM'),
+        u16(42),
+        u32(8),
+        u16(entries.length),
+        ...ifd,
+        u32(0),
+        ...values
+    ])
+}
+
+describe('Exif', () => {
+    let sticker: Buffer
+
+    /** The sticker with its EXIF replaced */
+    const withExif = async (exif: Buffer): Promise<Buffer> => {
+        const img = new Image()
+        await img.load(sticker)
+        img.exif = exif
+        return img.save(null)
+    }
+
+    before(async () => {
+        sticker = await new Sticker(svg, { pack: 'Pack', author: 'Me', id: 'exif-id', quality: 50 }).build()
+    })
+
+    it('should read the EXIF written by the library', async () => {
+        const { byteOrder, entries, metadata } = await extractExif(sticker)
+        assert.equal(byteOrder, 'little-endian')
+        assert.deepEqual(
+            entries.map(({ tag, type }) => [tag, type]),
+            [[0x5741, 7]]
+        )
+        assert.equal(metadata['sticker-pack-id'], 'exif-id')
+        assert.deepEqual(JSON.parse(entries[0].value.toString()), metadata)
+    })
+
+    it('should read a big-endian EXIF among other tags', async () => {
+        const json = Buffer.from(JSON.stringify({ 'sticker-pack-name': 'Big {endian}' }))
+        const exif = tiff(false, [
+            [0x0112, 3, Buffer.from([0x00, 0x06])],
+            [0x927c, 7, Buffer.from('{not json}')],
+            [0x5741, 7, json]
+        ])
+        const { byteOrder, entries, metadata } = await extractExif(await withExif(exif))
+        assert.equal(byteOrder, 'big-endian')
+        assert.deepEqual(
+            entries.map(({ tag, count }) => [tag, count]),
+            [
+                [0x0112, 1],
+                [0x927c, 10],
+                [0x5741, json.length]
+            ]
+        )
+        assert.equal(entries[0].value.readUInt16BE(), 6)
+        assert.deepEqual(metadata, { 'sticker-pack-name': 'Big {endian}' })
+    })
+
+    it('should return empty metadata without the sticker tag', async () => {
+        const exif = tiff(true, [[0x0112, 3, Buffer.from([0x01, 0x00])]])
+        assert.deepEqual(await extractMetadata(await withExif(exif)), {})
+    })
+
+    it('should throw an ExifError on a malformed EXIF', async () => {
+        const truncated = tiff(true, [[0x5741, 7, Buffer.from('{"emojis":[]}')]]).subarray(0, 16)
+        await assert.rejects(extractMetadata(await withExif(truncated)), (error: unknown) => {
+            assert.ok(error instanceof ExifError)
+            assert.equal(error.code, 'INVALID_METADATA')
+            assert.equal(error.offset, 8)
+            return true
+        })
+        await assert.rejects(extractMetadata(await withExif(Buffer.from('{"emojis":[]}'))), ExifError)
+        const invalid = tiff(true, [[0x5741, 7, Buffer.from('{"emojis":[')]])
+        await assert.rejects(extractMetadata(await withExif(invalid)), /not valid JSON/)
+    })
+})
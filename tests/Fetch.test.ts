@@ -0,0 +1,124 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import Sticker, { DownloadError, IFetchOptions } from '../src'
+
+/** Origin of a second server, to redirect to another origin */
+let otherOrigin = ''
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+/** Stand-in for the remote servers the stickers are downloaded from */
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+    '/sticker.svg': (req, res) => {
+        if (req.headers['x-token'] !== 'secret') return res.writeHead(403).end()
+        res.setHeader('content-type', 'image/svg+xml')
+        res.end(svg)
+    },
+    '/redirect': (_, res) => {
+        res.writeHead(302, { location: '/sticker.svg' }).end()
+    },
+    '/elsewhere': (_, res) => {
+        res.writeHead(302, { location: `${otherOrigin}/sticker.svg` }).end()
+    },
+    '/loop': (_, res) => {
+        res.writeHead(302, { location: '/loop' }).end()
+    },
+    '/page.html': (_, res) => {
+        res.setHeader('content-type', 'text/html')
+        res.end('<html></html>')
+    },
+    // Streams forever, without a content-length
+    '/endless': (_, res) => {
+        res.setHeader('content-type', 'image/png')
+        const timer = setInterval(() => res.write(Buffer.alloc(16 * 1024)), 5)
+        res.on('close', () => clearInterval(timer))
+    },
+    // Sends a byte now and then and never ends
+    '/slow': (_, res) => {
+        res.setHeader('content-type', 'image/png')
+        const timer = setInterval(() => res.write('.'), 50)
+        res.on('close', () => clearInterval(timer))
+    }
+}
+
+/** Starts a server with the routes, resolving to its origin */
+const listen = (server: Server): Promise<string> =>
+    new Promise((resolve) =>
+        server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    )
+
+describe('Fetch', () => {
+    const handler = (req: IncomingMessage, res: ServerResponse) =>
+        (routes[req.url ?? ''] ?? ((_, res) => res.writeHead(404).end()))(req, res)
+    const server = createServer(handler)
+    const other = createServer(handler)
+    let base: string
+    const allow: IFetchOptions = { allowPrivateAddresses: true }
+
+    before(async () => {
+        base = await listen(server)
+        otherOrigin = await listen(other)
+    })
+
+    after((done) => {
+        other.close(() => server.close(() => done()))
+    })
+
+    const rejectsWith = (sticker: Sticker, reason: string) =>
+        assert.rejects(sticker.build(), (error: unknown) => {
+            assert.ok(error instanceof DownloadError)
+            assert.equal(error.code, 'DOWNLOAD_FAILED')
+            assert.equal(error.reason, reason)
+            return true
+        })
+
+    it('should block private addresses by default', async () => {
+        await rejectsWith(new Sticker(`${base}/sticker.svg`), 'blocked')
+        await rejectsWith(new Sticker(`${base.replace('127.0.0.1', 'localhost')}/sticker.svg`), 'blocked')
+    })
+
+    it('should download from private addresses when allowed, with the headers and redirects', async () => {
+        const buffer = await new Sticker(`${base}/redirect`, {
+            fetch: { ...allow, headers: { 'x-token': 'secret' } }
+        }).build()
+        assert.ok(buffer.length > 0)
+    })
+
+    it('should not send the headers to another origin', async () => {
+        const fetch = { ...allow, headers: { 'x-token': 'secret' } }
+        assert.ok(await new Sticker(`${otherOrigin}/sticker.svg`, { fetch }).build())
+        await assert.rejects(new Sticker(`${base}/elsewhere`, { fetch }).build(), {
+            code: 'DOWNLOAD_FAILED',
+            status: 403
+        })
+    })
+
+    it('should stop following redirects after maxRedirects', async () => {
+        await rejectsWith(new Sticker(`${base}/loop`).setFetchOptions({ ...allow, maxRedirects: 3 }), 'redirects')
+    })
+
+    it('should reject responses with a type that is not allowed', async () => {
+        await rejectsWith(
+            new Sticker(`${base}/page.html`).setFetchOptions({ ...allow, allowedMimeTypes: ['image/*'] }),
+            'mime'
+        )
+    })
+
+    it('should abort downloads over maxBytes', async () => {
+        await rejectsWith(new Sticker(`${base}/endless`).setFetchOptions({ ...allow, maxBytes: 256 * 1024 }), 'size')
+    })
+
+    it('should abort downloads that take longer than the timeout', async () => {
+        await rejectsWith(new Sticker(`${base}/slow`).setFetchOptions({ ...allow, timeout: 300 }), 'timeout')
+    })
+
+    it('should report the HTTP status of failed responses', async () => {
+        await assert.rejects(new Sticker(`${base}/missing.png`).setFetchOptions(allow).build(), {
+            code: 'DOWNLOAD_FAILED',
+            status: 404
+        })
+    })
+})
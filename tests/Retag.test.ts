@@ -0,0 +1,69 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { mkdtemp, readFile, remove, writeFile } from 'fs-extra'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import Sticker, { extractMetadata, parseWebP, retagSticker, retagStickers } from '../src'
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+/** Chunks holding the image, which re-tagging must not touch */
+const imageChunks = (data: Buffer) =>
+    parseWebP(data)
+        .chunks.filter(({ fourCC }) => fourCC !== 'EXIF' && fourCC !== 'VP8X')
+        .map(({ fourCC, data }) => ({ fourCC, data }))
+
+describe('Retag', () => {
+    let sticker: Buffer
+
+    before(async () => {
+        sticker = await new Sticker(svg, {
+            pack: 'Original',
+            author: 'Someone',
+            id: 'original-id',
+            quality: 50
+        }).build()
+    })
+
+    it('should merge the new fields into the metadata, keeping the image chunks', async () => {
+        const retagged = await retagSticker(sticker, { pack: 'Mine', accessibilityText: 'A black square' })
+        const metadata = await extractMetadata(retagged)
+        assert.equal(metadata['sticker-pack-name'], 'Mine')
+        assert.equal(metadata['sticker-pack-publisher'], 'Someone')
+        assert.equal(metadata['sticker-pack-id'], 'original-id')
+        assert.equal(metadata['accessibility-text'], 'A black square')
+        assert.deepEqual(imageChunks(retagged), imageChunks(sticker))
+    })
+
+    it('should replace the metadata', async () => {
+        const metadata = await extractMetadata(await retagSticker(sticker, { pack: 'Mine' }, { replace: true }))
+        assert.equal(metadata['sticker-pack-name'], 'Mine')
+        assert.equal(metadata['sticker-pack-publisher'], '')
+        assert.notEqual(metadata['sticker-pack-id'], 'original-id')
+    })
+
+    it('should refuse stickers that are not WebP', async () => {
+        await assert.rejects(retagSticker(Buffer.from(svg), { pack: 'Mine' }), { code: 'UNSUPPORTED_MIME' })
+    })
+
+    it('should re-tag many files, reporting the failed ones', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'wa-sticker-retag-'))
+        try {
+            const files = [join(dir, '1.webp'), join(dir, '2.webp'), join(dir, '3.webp')]
+            await writeFile(files[0], sticker)
+            await writeFile(files[1], svg)
+            await writeFile(files[2], sticker)
+            const results = await retagStickers(files, { author: 'Bulk' }, { overwrite: true, concurrency: 2 })
+            assert.deepEqual(
+                results.map(({ file, error }) => file ?? error?.code),
+                [files[0], 'UNSUPPORTED_MIME', files[2]]
+            )
+            const metadata = await extractMetadata(await readFile(files[2]))
+            assert.equal(metadata['sticker-pack-publisher'], 'Bulk')
+            assert.equal(metadata['sticker-pack-name'], 'Original')
+        } finally {
+            await remove(dir)
+        }
+    })
+})
@@ -0,0 +1,85 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { Image } from 'node-webpmux'
+import Sticker, { extractMetadata, parseWebP, scrubSticker } from '../src'
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+/** Appends a chunk that node-webpmux does not know */
+const withChunk = (data: Buffer, fourCC: string, payload: Buffer): Buffer => {
+    const header = Buffer.alloc(8)
+    header.write(fourCC, 0, 'latin1')
+    header.writeUInt32LE(payload.length, 4)
+    const output = Buffer.concat([data, header, payload, Buffer.alloc(payload.length & 1)])
+    output.writeUInt32LE(output.length - 8, 4)
+    return output
+}
+
+const fourCCs = (data: Buffer) => parseWebP(data).chunks.map(({ fourCC }) => fourCC)
+
+describe('Scrub', () => {
+    let sticker: Buffer
+
+    before(async () => {
+        const built = await new Sticker(svg, {
+            pack: 'Private',
+            author: 'Someone',
+            id: 'private-id',
+            categories: ['🎉'],
+            quality: 50
+        }).build()
+        const img = new Image()
+        await img.load(built)
+        img.iccp = Buffer.from('icc profile')
+        img.xmp = Buffer.from('<x:xmpmeta>phone</x:xmpmeta>')
+        sticker = withChunk(await img.save(null), 'APPX', Buffer.from('tracking id'))
+    })
+
+    it('should remove every chunk but the image and report them', async () => {
+        const { data, removed, removedFields } = await scrubSticker(sticker)
+        const image = ['VP8X', 'VP8 ', 'VP8L', 'ALPH']
+        assert.deepEqual(
+            fourCCs(data),
+            fourCCs(sticker).filter((fourCC) => image.includes(fourCC))
+        )
+        assert.deepEqual(
+            removed.map(({ fourCC }) => fourCC),
+            ['ICCP', 'EXIF', 'XMP ', 'APPX']
+        )
+        assert.ok(removedFields.includes('sticker-pack-publisher'))
+        assert.deepEqual(await extractMetadata(data), {})
+    })
+
+    it('should keep the allowed chunks and fields, with new values', async () => {
+        const { data, removed, removedFields } = await scrubSticker(sticker, {
+            keep: ['ICCP', 'APPX'],
+            keepFields: ['emojis'],
+            metadata: { pack: 'Forwarded' }
+        })
+        assert.deepEqual(
+            removed.map(({ fourCC }) => fourCC),
+            ['EXIF', 'XMP ']
+        )
+        assert.ok(fourCCs(data).includes('ICCP') && fourCCs(data).includes('APPX'))
+        const metadata = await extractMetadata(data)
+        assert.deepEqual(metadata.emojis, ['🎉'])
+        assert.equal(metadata['sticker-pack-name'], 'Forwarded')
+        assert.equal(metadata['sticker-pack-publisher'], '')
+        assert.notEqual(metadata['sticker-pack-id'], 'private-id')
+        assert.deepEqual(removedFields.sort(), ['sticker-pack-id', 'sticker-pack-name', 'sticker-pack-publisher'])
+    })
+
+    it('should keep the allowed chunks of a simple WebP, made extended', async () => {
+        const image = parseWebP(sticker).chunks.find(({ fourCC }) => fourCC === 'VP8 ' || fourCC === 'VP8L')
+        assert.ok(image)
+        const simple = withChunk(Buffer.from('RIFF\0\0\0\0WEBP', 'latin1'), image.fourCC, image.data)
+        const { data, removed } = await scrubSticker(withChunk(simple, 'APPX', Buffer.from('tracking id')), {
+            keep: ['APPX']
+        })
+        assert.deepEqual(fourCCs(data), ['VP8X', image.fourCC, 'APPX'])
+        assert.deepEqual(removed, [])
+        const { width, height } = parseWebP(data)
+        assert.deepEqual([width, height], [parseWebP(simple).width, parseWebP(simple).height])
+    })
+})
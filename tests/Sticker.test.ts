@@ -1,8 +1,31 @@
 // eslint-disable-next-line @typescript-eslint/triple-slash-reference
 /// <reference path='../src/internal/node-webpmux.d.ts' />
 import { strict as assert } from 'assert'
-import Sticker, { extractMetadata, StickerTypes } from '../src'
+import Sticker, {
+    createSticker,
+    createStickers,
+    extractMetadata,
+    IBatchResult,
+    parseWebP,
+    registerResolver,
+    setFfmpegPath,
+    setLogger,
+    SizeLimitError,
+    StickerError,
+    StickerTypes,
+    UnsupportedMimeError,
+    unregisterResolver,
+    WHATSAPP_LIMITS
+} from '../src'
+import { PassThrough, Readable } from 'stream'
+import { createServer, get, IncomingHttpHeaders } from 'http'
+import { AddressInfo } from 'net'
+import { Image } from 'node-webpmux'
 import sizeOf from 'image-size'
+import { mkdir, mkdtemp, pathExists, readdir, readFile, remove, writeFile } from 'fs-extra'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sharp from 'sharp'
 
 const images = {
     static: {
@@ -118,6 +141,510 @@ describe('Sticker', () => {
         })
     })
 
+    describe('Masks', () => {
+        const svg = `
+            <svg xmlns="http://www.w3.org/2000/svg" width="600" height="400">
+                <rect width="600" height="400" fill="#ff0000" />
+            </svg>
+        `
+        const alphaAt = async (buffer: Buffer, x: number, y: number) => {
+            const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+            return data[(y * info.width + x) * info.channels + 3]
+        }
+
+        for (const type of [StickerTypes.STAR, StickerTypes.HEART, StickerTypes.HEXAGON]) {
+            it(`should create a ${type} sticker with transparent corners`, async () => {
+                const buffer = await new Sticker(svg, { type }).build()
+                const { height, width } = sizeOf(buffer)
+                assert.equal(height, 512)
+                assert.equal(width, 512)
+                assert.equal(await alphaAt(buffer, 0, 0), 0)
+                assert.ok((await alphaAt(buffer, 256, 300)) > 0)
+            })
+        }
+
+        it('should use the configured corner radius', async () => {
+            const buffer = await new Sticker(svg, { type: StickerTypes.ROUNDED, borderRadius: 200 }).build()
+            assert.equal(await alphaAt(buffer, 40, 40), 0)
+        })
+
+        it('should cut the sticker out with a custom SVG path', async () => {
+            const buffer = await new Sticker(svg).setMask('M0 0H256V512H0Z').build()
+            assert.ok((await alphaAt(buffer, 100, 256)) > 0)
+            assert.equal(await alphaAt(buffer, 400, 256), 0)
+        })
+    })
+
+    describe('Outline', () => {
+        const svg = `
+            <svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">
+                <circle cx="256" cy="256" r="200" fill="#ff0000" />
+            </svg>
+        `
+        const pixelAt = async (buffer: Buffer, x: number, y: number) => {
+            const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+            return data.slice((y * info.width + x) * info.channels, (y * info.width + x + 1) * info.channels)
+        }
+
+        it('should draw a white stroke around the content and keep the size', async () => {
+            const buffer = await new Sticker(svg, { type: StickerTypes.FULL }).setOutline().build()
+            const { height, width } = sizeOf(buffer)
+            assert.equal(height, 512)
+            assert.equal(width, 512)
+            const [r, g, b, alpha] = await pixelAt(buffer, 256, 58)
+            assert.ok(r > 200 && g > 200 && b > 200 && alpha > 200)
+            assert.equal((await pixelAt(buffer, 0, 0))[3], 0)
+        })
+
+        it('should draw a drop shadow under the content', async () => {
+            const buffer = await new Sticker(svg, { type: StickerTypes.FULL })
+                .setShadow({ offsetX: 10, offsetY: 10, opacity: 1 })
+                .build()
+            // Below the bottom edge of the shrunk circle
+            const [, , , alpha] = await pixelAt(buffer, 256, 446)
+            assert.ok(alpha > 0)
+        })
+    })
+
+    describe('Captions', () => {
+        const svg = `
+            <svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">
+                <rect width="512" height="512" fill="#0000ff" fill-opacity="0" />
+            </svg>
+        `
+        const opaqueRows = async (buffer: Buffer, from: number, to: number) => {
+            const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+            let count = 0
+            for (let y = from; y < to; y++)
+                for (let x = 0; x < info.width; x++) if (data[(y * info.width + x) * info.channels + 3] > 0) count++
+            return count
+        }
+
+        it('should draw the caption at the requested position', async () => {
+            const buffer = await new Sticker(svg, { type: StickerTypes.FULL })
+                .addCaption({ text: 'TOP TEXT', position: 'top' })
+                .build()
+            assert.ok((await opaqueRows(buffer, 0, 128)) > 0)
+            assert.equal(await opaqueRows(buffer, 384, 512), 0)
+        })
+
+        it('should wrap long captions inside the sticker', async () => {
+            // No descenders, so that the lines are apart
+            const buffer = await new Sticker(svg, { type: StickerTypes.FULL })
+                .addCaption('this sentence is much too wide to fit on one line at all')
+                .build()
+            const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+            assert.equal(info.width, 512)
+            assert.equal(info.height, 512)
+            const opaque = (x: number, y: number) => data[(y * info.width + x) * info.channels + 3] > 0
+            const rows = Array.from({ length: info.height }, (_, y) =>
+                Array.from({ length: info.width }, (_, x) => x).some((x) => opaque(x, y))
+            )
+            // Lines are bands of opaque rows with transparent rows between them
+            const bands = rows.filter((row, y) => row && !rows[y - 1]).length
+            assert.ok(bands >= 2, `${bands} line(s)`)
+            for (let y = 0; y < info.height; y++) assert.ok(!opaque(0, y) && !opaque(info.width - 1, y))
+        })
+    })
+
+    describe('Target Size', () => {
+        // Random pixels do not compress, the default encoding is far over the WhatsApp limit
+        const noise = () =>
+            sharp(Buffer.from(Array.from({ length: 512 * 512 * 3 }, () => Math.floor(Math.random() * 256))), {
+                raw: { width: 512, height: 512, channels: 3 }
+            })
+                .png()
+                .toBuffer()
+
+        it('should fit a static sticker under the WhatsApp limit', async () => {
+            const sticker = new Sticker(await noise()).setTargetSize(true)
+            const buffer = await sticker.build()
+            assert.ok(buffer.length <= WHATSAPP_LIMITS.STATIC_MAX_SIZE)
+            assert.ok(sticker.encoding)
+            assert.equal(sticker.encoding?.withinTarget, true)
+            assert.equal(sticker.encoding?.lossless, false)
+            assert.ok((sticker.encoding?.quality ?? 100) < 100)
+        })
+
+        it('should keep lossless encoding when it fits', async () => {
+            const sticker = new Sticker(
+                '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="#ff0000"/></svg>'
+            ).setTargetSize(true)
+            await sticker.build()
+            assert.equal(sticker.encoding?.lossless, true)
+            assert.equal(sticker.encoding?.nearLossless, false)
+        })
+
+        it('should reject an unreachable target size with strictSize', async () => {
+            await assert.rejects(
+                new Sticker(await noise(), { targetSize: 2048, strictSize: true }).build(),
+                (error: unknown) => {
+                    assert.ok(error instanceof SizeLimitError)
+                    assert.equal(error.code, 'SIZE_LIMIT_UNREACHABLE')
+                    assert.equal(error.report.withinTarget, false)
+                    return true
+                }
+            )
+        })
+
+        it('should fit an animation with an outline under the WhatsApp limit', async () => {
+            const frames = await Promise.all(
+                Array.from({ length: 6 }, async () =>
+                    Image.generateFrame({
+                        buffer: await sharp(await noise())
+                            .webp({ quality: 100 })
+                            .toBuffer(),
+                        delay: 100
+                    })
+                )
+            )
+            const animation = await Image.save(null, { width: 512, height: 512, frames })
+            const sticker = new Sticker(animation).setOutline()
+            const buffer = await sticker.build()
+            assert.ok(parseWebP(buffer).animated)
+            assert.ok(buffer.length <= WHATSAPP_LIMITS.ANIMATED_MAX_SIZE)
+            assert.equal(sticker.encoding?.withinTarget, true)
+        })
+    })
+
+    describe('Segments', () => {
+        // 10 frames of 200ms, the frames 6 and 7 move
+        const animation = async () => {
+            const colors = ['#000000', '#000000', '#000000', '#000000', '#000000', '#ffffff', '#ff0000', '#000000']
+            const frames = await Promise.all(
+                Array.from({ length: 10 }, async (_, i) =>
+                    Image.generateFrame({
+                        buffer: await sharp({
+                            create: { width: 64, height: 64, channels: 4, background: colors[i] ?? '#000000' }
+                        })
+                            .webp({ lossless: true })
+                            .toBuffer(),
+                        delay: 200
+                    })
+                )
+            )
+            return Image.save(null, { width: 64, height: 64, frames })
+        }
+
+        it('should keep the frames between startTime and endTime', async () => {
+            const buffer = await new Sticker(await animation(), { startTime: 1, endTime: 1.6 }).build()
+            const { frames, duration } = parseWebP(buffer)
+            assert.equal(frames.length, 3)
+            assert.equal(duration, 600)
+        })
+
+        it('should trim a GIF with frames of different lengths', async () => {
+            // Black for 1s, white for 200ms and black for 800ms once the GIF encoder merged the identical frames
+            const gif = await sharp(await animation(), { animated: true })
+                .gif()
+                .toBuffer()
+            const buffer = await new Sticker(gif, { startTime: 1 }).build()
+            assert.equal(parseWebP(buffer).duration, 1000)
+        })
+
+        it('should keep the most active segment', async () => {
+            const buffer = await new Sticker(await animation(), { segment: 'most-active', duration: 0.6 }).build()
+            const pixel = async (page: number) => (await sharp(buffer, { page }).raw().toBuffer()).slice(0, 3)
+            assert.equal(parseWebP(buffer).frames.length, 3)
+            // Black, then the white and red frames
+            assert.ok((await pixel(0)).every((value) => value < 50))
+            assert.ok((await pixel(1)).every((value) => value > 200))
+        })
+    })
+
+    describe('Build Options', () => {
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+        it('should report the progress of every stage', async () => {
+            const stages: string[] = []
+            await new Sticker(svg).build({ onProgress: ({ stage, percent }) => percent === 100 && stages.push(stage) })
+            assert.deepEqual(stages, ['parse', 'process', 'exif'])
+        })
+
+        it('should reject when the signal is aborted', async () => {
+            const controller = new AbortController()
+            controller.abort()
+            await assert.rejects(new Sticker(svg).build({ signal: controller.signal }), {
+                name: 'AbortError',
+                code: 'ABORTED'
+            })
+        })
+
+        it('should reject when the build times out', async () => {
+            await assert.rejects(new Sticker(images.animated.landscape).build({ timeout: 1 }), {
+                name: 'AbortError'
+            })
+        })
+
+        it('should remove its temporary files', async () => {
+            const tempDir = await mkdtemp(join(tmpdir(), 'wa-sticker-test-'))
+            try {
+                const sticker = new Sticker(images.animated.landscape, { type: StickerTypes.CROPPED })
+                await sticker.build({ tempDir })
+                assert.deepEqual(await readdir(tempDir), [])
+                await assert.rejects(sticker.build({ tempDir, timeout: 1 }), { name: 'AbortError' })
+                assert.deepEqual(await readdir(tempDir), [])
+            } finally {
+                await remove(tempDir)
+            }
+        })
+
+        it('should kill ffmpeg and remove its temporary files when aborted', async () => {
+            const dir = await mkdtemp(join(tmpdir(), 'wa-sticker-test-'))
+            const tempDir = join(dir, 'temp')
+            const pidFile = join(dir, 'pid')
+            // Answers the environment and format checks, then creates its output, writes its PID and never ends
+            const ffmpeg = join(dir, 'ffmpeg')
+            await writeFile(
+                ffmpeg,
+                [
+                    '#!/bin/sh',
+                    'case "$*" in',
+                    '*-version*) echo "ffmpeg version 6.0" ;;',
+                    '*-encoders*) echo " V....D libwebp libwebp WebP image" ;;',
+                    '*-filters*) for name in crop scale setsar fps pad format; do echo " ... $name V->V"; done ;;',
+                    '*-formats*|*-codecs*) ;;',
+                    '*) for output; do :; done; : > "$output"',
+                    `   echo $$ > '${pidFile}.tmp' && mv '${pidFile}.tmp' '${pidFile}'`,
+                    '   exec sleep 60 ;;',
+                    'esac'
+                ].join('\n'),
+                { mode: 0o755 }
+            )
+            await mkdir(tempDir)
+            const gif = await sharp({ create: { width: 64, height: 64, channels: 4, background: '#ff0000' } })
+                .toFormat('gif')
+                .toBuffer()
+            const controller = new AbortController()
+            setFfmpegPath(ffmpeg)
+            try {
+                const build = new Sticker(gif, { type: StickerTypes.CROPPED }).build({
+                    tempDir,
+                    signal: controller.signal
+                })
+                while (!(await pathExists(pidFile))) await new Promise((resolve) => setTimeout(resolve, 20))
+                const pid = Number(await readFile(pidFile, 'utf-8'))
+                controller.abort()
+                await assert.rejects(build, { name: 'AbortError', code: 'ABORTED' })
+                assert.throws(() => process.kill(pid, 0), { code: 'ESRCH' })
+                assert.deepEqual(await readdir(tempDir), [])
+            } finally {
+                setFfmpegPath()
+                await remove(dir)
+            }
+        })
+    })
+
+    describe('Inputs', () => {
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+        const png = () => sharp(Buffer.from(svg)).png().toBuffer()
+
+        it('should create stickers from data URLs and base64', async () => {
+            assert.ok(await new Sticker(`data:image/svg+xml,${encodeURIComponent(svg)}`).build())
+            assert.ok(await new Sticker(`data:image/png;base64,${(await png()).toString('base64')}`).build())
+            assert.ok(await new Sticker((await png()).toString('base64')).build())
+        })
+
+        it('should decode every escape of a percent-encoded data URL as one byte', async () => {
+            const escaped = [...(await png())].map((byte) => `%${byte.toString(16).padStart(2, '0')}`).join('')
+            assert.ok(await new Sticker(`data:image/png,${escaped}`).build())
+            await assert.rejects(new Sticker('data:image/png,%89PNG%zz').build(), {
+                name: 'DownloadError',
+                reason: 'protocol'
+            })
+        })
+
+        it('should create stickers from streams, more than once', async () => {
+            const sticker = new Sticker(Readable.from([await png()]))
+            assert.ok(await sticker.build())
+            assert.ok(await sticker.build())
+        })
+
+        it('should keep reading a stream when the build reading it is aborted', async () => {
+            const stream = new PassThrough()
+            const sticker = new Sticker(stream)
+            const controller = new AbortController()
+            const build = sticker.build({ signal: controller.signal })
+            controller.abort()
+            await assert.rejects(build, { name: 'AbortError' })
+            stream.end(await png())
+            assert.ok(await sticker.build())
+        })
+
+        it('should resolve registered schemes', async () => {
+            const data = await png()
+            registerResolver('media', (url) => (url === 'media://cat' ? Readable.from([data]) : 'media://cat'))
+            try {
+                assert.ok(await new Sticker('media://cat').build())
+                assert.ok(await createSticker('media://alias'))
+            } finally {
+                unregisterResolver('media')
+            }
+        })
+    })
+
+    describe('Output', () => {
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+
+        it('should stream the sticker', async () => {
+            const chunks: Buffer[] = []
+            for await (const chunk of new Sticker(svg).toStream()) chunks.push(chunk)
+            assert.equal(Buffer.concat(chunks).toString('latin1', 8, 12), 'WEBP')
+        })
+
+        it('should send the sticker as an HTTP response', async () => {
+            const server = createServer((_, res) => new Sticker(svg).toResponse(res))
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+            try {
+                const { headers, body } = await new Promise<{ headers: IncomingHttpHeaders; body: Buffer }>(
+                    (resolve, reject) =>
+                        get(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, (res) => {
+                            const chunks: Buffer[] = []
+                            res.on('data', (chunk) => chunks.push(chunk))
+                            res.on('end', () => resolve({ headers: res.headers, body: Buffer.concat(chunks) }))
+                        }).on('error', reject)
+                )
+                assert.equal(headers['content-type'], 'image/webp')
+                assert.equal(Number(headers['content-length']), body.length)
+                assert.equal(body.toString('latin1', 8, 12), 'WEBP')
+            } finally {
+                server.close()
+            }
+        })
+    })
+
+    describe('Batch', () => {
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+        const inputs = [svg, Buffer.from('not an image'), { input: svg, options: { type: StickerTypes.CIRCLE } }]
+
+        const check = (results: IBatchResult[]) => {
+            assert.deepEqual(
+                results.map(({ index }) => index),
+                [0, 1, 2]
+            )
+            assert.equal(results[0].data?.toString('latin1', 8, 12), 'WEBP')
+            assert.equal(results[1].error?.code, 'UNSUPPORTED_MIME')
+            assert.ok(results[1].error instanceof UnsupportedMimeError)
+            assert.equal(results[2].data?.toString('latin1', 8, 12), 'WEBP')
+        }
+
+        it('should convert every input, reporting the failed ones', async () => {
+            const done: number[] = []
+            const results = await createStickers(inputs, {
+                concurrency: 2,
+                defaults: { pack: 'Batch' },
+                onResult: ({ index }) => done.push(index)
+            })
+            check(results)
+            assert.deepEqual(done.sort(), [0, 1, 2])
+            assert.equal((await extractMetadata(results[0].data as Buffer))['sticker-pack-name'], 'Batch')
+        })
+
+        it('should convert in worker threads', async () => {
+            check(await createStickers(inputs, { concurrency: 2, workers: true }))
+        })
+
+        it('should send the Buffer options to the worker threads', async () => {
+            const mask = Buffer.from(
+                '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><circle cx="32" cy="32" r="16"/></svg>'
+            )
+            const [{ data, error }] = await createStickers([svg], { workers: true, defaults: { mask } })
+            assert.equal(error, undefined)
+            const { data: pixels, info } = await sharp(data as Buffer)
+                .raw()
+                .toBuffer({ resolveWithObject: true })
+            // Cut out in the corner, kept in the middle
+            assert.equal(pixels[3], 0)
+            assert.ok(pixels[((info.height / 2) * info.width + info.width / 2) * 4 + 3] > 0)
+        })
+
+        it('should run at most `concurrency` conversions at a time', async () => {
+            let running = 0
+            let peak = 0
+            registerResolver('counted', async () => {
+                peak = Math.max(peak, ++running)
+                await new Promise((resolve) => setTimeout(resolve, 50))
+                running--
+                return svg
+            })
+            try {
+                const results = await createStickers(Array(6).fill('counted://svg'), { concurrency: 2 })
+                assert.ok(results.every(({ data }) => data))
+                assert.equal(peak, 2)
+            } finally {
+                unregisterResolver('counted')
+            }
+        })
+
+        it('should not start the stickers of an aborted batch', async () => {
+            const controller = new AbortController()
+            controller.abort()
+            const results = await createStickers([svg, svg], { signal: controller.signal })
+            assert.ok(results.every(({ error }) => error?.code === 'ABORTED'))
+        })
+    })
+
+    describe('Errors', () => {
+        it('should reject unsupported files with UNSUPPORTED_MIME', async () => {
+            await assert.rejects(new Sticker(Buffer.from('not an image')).build(), (error: unknown) => {
+                assert.ok(error instanceof UnsupportedMimeError)
+                assert.equal(error.code, 'UNSUPPORTED_MIME')
+                assert.equal(error.stage, 'parse')
+                return true
+            })
+        })
+
+        it('should reject failed downloads with DOWNLOAD_FAILED and the cause', async () => {
+            await assert.rejects(new Sticker('https://example.invalid/sticker.png').build(), (error: unknown) => {
+                assert.ok(error instanceof StickerError)
+                assert.equal(error.code, 'DOWNLOAD_FAILED')
+                assert.ok(error.cause)
+                return true
+            })
+        })
+
+        it('should reject invalid segments with INVALID_OPTIONS', async () => {
+            await assert.rejects(new Sticker(images.animated.landscape, { startTime: 5, endTime: 2 }).build(), {
+                code: 'INVALID_OPTIONS'
+            })
+        })
+    })
+
+    describe('Logging', () => {
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512"/></svg>'
+
+        it('should log the encoding attempts with their fields', async () => {
+            const entries: { message: string; fields?: Record<string, unknown> }[] = []
+            const logger = {
+                debug: (message: string, fields?: Record<string, unknown>) => entries.push({ message, fields })
+            }
+            await new Sticker(svg).setTargetSize(true).build({ logger })
+            assert.ok(entries.length > 0)
+            assert.equal(entries[0].fields?.attempt, 1)
+            assert.equal(entries[0].fields?.quality, 100)
+            assert.equal(typeof entries[0].fields?.size, 'number')
+        })
+
+        it('should use the global logger and be silent by default', async () => {
+            const messages: string[] = []
+            setLogger({ info: (message) => messages.push(message) })
+            try {
+                await new Sticker(svg).setTargetSize(true).build()
+            } finally {
+                setLogger()
+            }
+            assert.ok(messages.length > 0)
+            const count = messages.length
+            await new Sticker(svg).setTargetSize(true).build()
+            assert.equal(messages.length, count)
+        })
+    })
+
     describe('Metadata', () => {
         it('should create sticker with the provided pack and author name', async () => {
             const options = {
@@ -130,5 +657,72 @@ describe('Sticker', () => {
             assert.equal(metadata['sticker-pack-name'], options.pack)
             assert.equal(metadata['sticker-pack-publisher'], options.author)
         })
+
+        it('should write the store links, flags, accessibility text and extra keys', async () => {
+            const svg =
+                '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+            const buffer = await new Sticker(svg, {
+                androidAppStoreLink: 'https://play.google.com/store/apps/details?id=com.example',
+                iosAppStoreLink: 'https://apps.apple.com/app/id000000000',
+                isAvatar: false,
+                isFirstParty: true,
+                accessibilityText: 'A black square',
+                extraMetadata: { 'sticker-maker-source': 'example', 'sticker-pack-name': 'overridden' }
+            })
+                .setPack('WSF')
+                .build()
+            const metadata = await extractMetadata(buffer)
+            assert.equal(
+                metadata['android-app-store-link'],
+                'https://play.google.com/store/apps/details?id=com.example'
+            )
+            assert.equal(metadata['ios-app-store-link'], 'https://apps.apple.com/app/id000000000')
+            assert.equal(metadata['is-avatar-sticker'], 0)
+            assert.equal(metadata['is-first-party-sticker'], 1)
+            assert.equal(metadata['is-ai-sticker'], undefined)
+            assert.equal(metadata['accessibility-text'], 'A black square')
+            assert.equal(metadata['sticker-maker-source'], 'example')
+            assert.equal(metadata['sticker-pack-name'], 'WSF')
+        })
+
+        describe('Deterministic', () => {
+            const square = (color: string) =>
+                `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" fill="${color}"/></svg>`
+
+            it('should build byte-identical stickers with sorted keys', async () => {
+                const options = { pack: 'WSF', author: 'Well', deterministic: true }
+                const first = await new Sticker(square('#000'), {
+                    ...options,
+                    extraMetadata: { b: 1, a: { d: 1, c: 2 } }
+                }).build()
+                const second = await new Sticker(square('#000'), {
+                    ...options,
+                    extraMetadata: { a: { c: 2, d: 1 }, b: 1 }
+                }).build()
+                assert.ok(first.equals(second))
+                const metadata = await extractMetadata(first)
+                assert.deepEqual(Object.keys(metadata), Object.keys(metadata).sort())
+                assert.match(metadata['sticker-pack-id'] as string, /^[0-9a-f]{64}$/)
+                const other = await extractMetadata(
+                    await new Sticker(square('#000'), { ...options, pack: 'Other' }).build()
+                )
+                assert.notEqual(other['sticker-pack-id'], metadata['sticker-pack-id'])
+            })
+
+            it('should derive the ID from the content and the namespace', async () => {
+                const id = async (color: string, namespace?: string) =>
+                    (
+                        await extractMetadata(
+                            await new Sticker(square(color), {
+                                pack: 'WSF',
+                                deterministic: { idFrom: 'content', namespace }
+                            }).build()
+                        )
+                    )['sticker-pack-id']
+                assert.equal(await id('#000'), await id('#000'))
+                assert.notEqual(await id('#000'), await id('#fff'))
+                assert.notEqual(await id('#000'), await id('#000', 'my-app'))
+            })
+        })
     })
 })
@@ -0,0 +1,181 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import Sticker, {
+    createContentsJson,
+    exportContentsJson,
+    exportWaStickers,
+    extractMetadata,
+    importWaStickers,
+    PackError,
+    StickerPack,
+    WHATSAPP_LIMITS,
+    WhatsAppValidator
+} from '../src'
+import { existsSync, readJSON, remove } from 'fs-extra'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sizeOf from 'image-size'
+
+const svg = (color: string) => `
+    <svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+        <circle cx="256" cy="256" r="200" fill="${color}" />
+    </svg>
+`
+
+const createStickers = (count: number) =>
+    Array.from({ length: count }, (_, i) => new Sticker(svg(`#${(i * 40).toString(16).padStart(2, '0')}0000`)))
+
+describe('StickerPack', () => {
+    it('should build every sticker with the pack metadata', async () => {
+        const pack = new StickerPack(createStickers(3), { pack: 'WSF', author: 'Well', id: 'wsf-pack' })
+        const { stickers, animated } = await pack.build()
+        assert.equal(stickers.length, 3)
+        assert.equal(animated, false)
+        for (const { data } of stickers) {
+            const metadata = await extractMetadata(data)
+            assert.equal(metadata['sticker-pack-name'], 'WSF')
+            assert.equal(metadata['sticker-pack-publisher'], 'Well')
+            assert.equal(metadata['sticker-pack-id'], 'wsf-pack')
+        }
+    })
+
+    it('should keep room under the size limit for the pack metadata', async () => {
+        const stickers = createStickers(3).map((sticker) => sticker.setTargetSize(8192))
+        const pack = new StickerPack(stickers, { pack: 'P'.repeat(120), author: 'A'.repeat(120) })
+        const built = await pack.build()
+        for (const [index, { encoding }] of stickers.entries()) {
+            assert.ok(encoding)
+            // The metadata written fits in the room the encoder left for it
+            assert.ok(built.stickers[index].data.length - encoding.size <= 8192 - encoding.targetSize)
+        }
+        assert.ok(stickers.every(({ metadata }) => metadata.pack === ''))
+    })
+
+    it('should derive the pack ID in the deterministic mode', async () => {
+        const build = (deterministic: boolean | { idFrom: 'content' }, count = 3) =>
+            new StickerPack(createStickers(count), { pack: 'WSF', author: 'Well', deterministic }).build()
+        const [first, second] = [await build(true), await build(true)]
+        assert.equal(first.id, second.id)
+        assert.ok(first.stickers.every(({ data }, i) => data.equals(second.stickers[i].data)))
+        assert.notEqual((await build({ idFrom: 'content' })).id, (await build({ idFrom: 'content' }, 4)).id)
+        assert.notEqual((await build(false)).id, (await build(false)).id)
+    })
+
+    it('should keep the categories of each sticker', async () => {
+        const stickers = createStickers(3)
+        stickers[1].setCategories(['🎉'])
+        const pack = await new StickerPack(stickers).build()
+        const metadata = await extractMetadata(pack.stickers[1].data)
+        assert.deepEqual(metadata.emojis, ['🎉'])
+        assert.deepEqual(pack.stickers[1].categories, ['🎉'])
+    })
+
+    it('should generate a 96x96 tray icon', async () => {
+        const { trayIcon } = await new StickerPack(createStickers(3)).build()
+        const { height, width, type } = sizeOf(trayIcon)
+        assert.equal(type, 'png')
+        assert.equal(height, WHATSAPP_LIMITS.TRAY_ICON_SIZE)
+        assert.equal(width, WHATSAPP_LIMITS.TRAY_ICON_SIZE)
+        assert.ok(trayIcon.length <= WHATSAPP_LIMITS.TRAY_ICON_MAX_SIZE)
+    })
+
+    it('should refuse packs with too few stickers', async () => {
+        await assert.rejects(new StickerPack(createStickers(2)).build(), /at least/)
+    })
+
+    it('should refuse packs with too many stickers', () => {
+        assert.throws(() => new StickerPack(createStickers(WHATSAPP_LIMITS.MAX_STICKERS_PER_PACK + 1)), /at most/)
+    })
+
+    it('should refuse to mix animated and static stickers', async function () {
+        this.timeout(30000)
+        const stickers = [...createStickers(2), new Sticker('https://c.tenor.com/2RdLoyV5VPsAAAAC/ayame-nakiri.gif')]
+        await assert.rejects(new StickerPack(stickers).build(), /cannot mix/)
+    })
+
+    describe('.wastickers', () => {
+        it('should export and import a pack', async () => {
+            const pack = await new StickerPack(createStickers(3), { pack: 'WSF', author: 'Well' }).build()
+            const archive = await importWaStickers(await exportWaStickers(pack))
+            assert.equal(archive.pack, 'WSF')
+            assert.equal(archive.author, 'Well')
+            assert.deepEqual(archive.trayIcon, pack.trayIcon)
+            assert.deepEqual(
+                archive.stickers.map(({ filename }) => filename),
+                ['1.webp', '2.webp', '3.webp']
+            )
+            archive.stickers.forEach(({ data, metadata, sticker }, i) => {
+                assert.deepEqual(data, pack.stickers[i].data)
+                assert.equal(metadata['sticker-pack-name'], 'WSF')
+                assert.equal(sticker.metadata.author, 'Well')
+            })
+        })
+
+        it('should keep every metadata key of the imported stickers', async () => {
+            const stickers = Array.from(
+                { length: 3 },
+                () =>
+                    new Sticker(svg('#ff0000'), {
+                        accessibilityText: 'A red circle',
+                        isAvatar: true,
+                        extraMetadata: { 'sticker-maker-source': 'example' }
+                    })
+            )
+            const archive = await importWaStickers(await exportWaStickers(await new StickerPack(stickers).build()))
+            const { accessibilityText, isAvatar, extraMetadata } = archive.stickers[0].sticker.metadata
+            assert.deepEqual(
+                { accessibilityText, isAvatar, extraMetadata },
+                {
+                    accessibilityText: 'A red circle',
+                    isAvatar: true,
+                    extraMetadata: { 'sticker-maker-source': 'example' }
+                }
+            )
+            const metadata = await extractMetadata(await archive.stickers[0].sticker.build())
+            assert.equal(metadata['sticker-maker-source'], 'example')
+            assert.equal(metadata['accessibility-text'], 'A red circle')
+        })
+    })
+
+    describe('contents.json', () => {
+        const dir = join(tmpdir(), `wsf-contents-${Date.now()}`)
+
+        after(() => remove(dir))
+
+        it('should map the categories of each sticker to its emojis', async () => {
+            const stickers = createStickers(3).map((sticker) => sticker.setCategories(['😀', '🎉']))
+            const pack = await new StickerPack(stickers, { pack: 'WSF', author: 'Well', id: 'wsf_pack' }).build()
+            const contents = createContentsJson([pack], { androidPlayStoreLink: 'https://play.google.com' })
+            assert.equal(contents.android_play_store_link, 'https://play.google.com')
+            assert.equal(contents.sticker_packs[0].identifier, 'wsf_pack')
+            assert.equal(contents.sticker_packs[0].animated_sticker_pack, false)
+            assert.deepEqual(contents.sticker_packs[0].stickers[0], { image_file: '01.webp', emojis: ['😀', '🎉'] })
+        })
+
+        it('should write the manifest and the assets of each pack', async () => {
+            const stickers = createStickers(3).map((sticker) => sticker.setCategories(['😀']))
+            const pack = await new StickerPack(stickers, { pack: 'WSF', author: 'Well', id: 'wsf_pack' }).build()
+            await exportContentsJson([pack], dir)
+            assert.deepEqual(await readJSON(join(dir, 'contents.json')), createContentsJson([pack]))
+            assert.ok(existsSync(join(dir, 'wsf_pack', 'tray.png')))
+            assert.ok(existsSync(join(dir, 'wsf_pack', '03.webp')))
+        })
+
+        it('should refuse to export packs failing the WhatsApp checks', async () => {
+            const pack = await new StickerPack(createStickers(3), { id: 'no_emojis' }).build()
+            await assert.rejects(exportContentsJson([pack], dir), /At least 1 emoji/)
+            assert.ok(!existsSync(join(dir, 'no_emojis')))
+        })
+
+        it('should refuse pack identifiers that are not safe folder names', async () => {
+            const stickers = createStickers(3).map((sticker) => sticker.setCategories(['😀']))
+            const pack = await new StickerPack(stickers, { id: '../escape' }).build()
+            const { errors } = await WhatsAppValidator.validatePack(pack)
+            assert.ok(errors.some((error) => error.includes('"../escape"')))
+            await assert.rejects(exportContentsJson([pack], dir), PackError)
+            assert.ok(!existsSync(join(dir, '..', 'escape')))
+            assert.throws(() => createContentsJson([{ ...pack, id: 'a/b' }]), PackError)
+        })
+    })
+})
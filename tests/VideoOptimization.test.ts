@@ -75,4 +75,23 @@ describe('Video File Size Optimization', () => {
             throw error
         }
     })
+
+    it('should report what the encoder sacrificed', async function () {
+        this.timeout(120000)
+
+        const sticker = new Sticker(testVideoPath).setVideoOptions({
+            targetSize: 100 * 1024,
+            maxDuration: 3,
+            strategy: ['fps', 'quality']
+        })
+        const buffer = await sticker.build()
+        const report = sticker.videoEncoding
+
+        assert.ok(report, 'The encoding report should be set')
+        assert.ok(report.duration <= 3, 'The clip should be cut to maxDuration')
+        if (report.sourceDuration > 3) assert.ok(report.sacrificed.includes('duration'))
+        assert.ok(report.fps >= 5, 'The frame rate should not go under minFps')
+        assert.equal(report.withinTarget, report.size <= 100 * 1024)
+        if (report.withinTarget) assert.ok(buffer.length <= 100 * 1024 + 1024)
+    })
 })
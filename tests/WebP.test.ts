@@ -0,0 +1,96 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path='../src/internal/node-webpmux.d.ts' />
+import { strict as assert } from 'assert'
+import { parseWebP, WhatsAppValidator } from '../src'
+
+/** 1x1 lossless bitstream */
+const VP8L = Buffer.from('UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==', 'base64').slice(20)
+
+const chunk = (fourCC: string, data: Buffer): Buffer => {
+    const header = Buffer.alloc(8)
+    header.write(fourCC, 0, 'latin1')
+    header.writeUInt32LE(data.length, 4)
+    return Buffer.concat([header, data, Buffer.alloc(data.length & 1)])
+}
+
+const riff = (...chunks: Buffer[]): Buffer => {
+    const header = Buffer.from('RIFF\0\0\0\0WEBP', 'latin1')
+    const file = Buffer.concat([header, ...chunks])
+    file.writeUInt32LE(file.length - 8, 4)
+    return file
+}
+
+const frame = (duration: number, flags = 0): Buffer => {
+    const data = Buffer.alloc(16)
+    data.writeUIntLE(duration, 12, 3)
+    data[15] = flags
+    return chunk('ANMF', Buffer.concat([data, chunk('VP8L', VP8L)]))
+}
+
+const animation = (durations: number[], loops = 0): Buffer => {
+    const vp8x = Buffer.alloc(10)
+    vp8x[0] = 0b010010
+    const anim = Buffer.alloc(6)
+    anim.writeUInt32LE(0xff102030, 0)
+    anim.writeUInt16LE(loops, 4)
+    return riff(chunk('VP8X', vp8x), chunk('ANIM', anim), ...durations.map((duration, i) => frame(duration, i % 4)))
+}
+
+describe('WebP parser', () => {
+    it('should parse a still lossless image', () => {
+        const info = parseWebP(riff(chunk('VP8L', VP8L)))
+        assert.equal(info.format, 'lossless')
+        assert.equal(info.animated, false)
+        assert.equal(info.width, 1)
+        assert.equal(info.height, 1)
+        assert.deepEqual(info.frames, [])
+    })
+
+    it('should read frame durations, flags and loop count of an animation', () => {
+        const info = parseWebP(animation([100, 40, 60], 3))
+        assert.equal(info.format, 'extended')
+        assert.equal(info.animated, true)
+        assert.equal(info.hasAlpha, true)
+        assert.equal(info.loopCount, 3)
+        assert.deepEqual(info.backgroundColor, [0x10, 0x20, 0x30, 0xff])
+        assert.deepEqual(
+            info.frames.map(({ duration }) => duration),
+            [100, 40, 60]
+        )
+        assert.equal(info.duration, 200)
+        assert.deepEqual(
+            info.frames.map(({ blend, dispose }) => [blend, dispose]),
+            [
+                [true, false],
+                [true, true],
+                [false, false]
+            ]
+        )
+    })
+
+    it('should list the top level chunks in file order', () => {
+        const info = parseWebP(animation([100, 100]))
+        assert.deepEqual(
+            info.chunks.map(({ fourCC }) => fourCC),
+            ['VP8X', 'ANIM', 'ANMF', 'ANMF']
+        )
+    })
+
+    it('should reject malformed input', () => {
+        assert.throws(() => parseWebP(Buffer.from('not a webp file at all')), /Invalid WebP/)
+        const truncated = animation([100, 100])
+        assert.throws(() => parseWebP(truncated.slice(0, truncated.length - 10)), /Invalid WebP/)
+    })
+
+    describe('Animated sticker validation', () => {
+        it('should reject animations longer than 10 seconds', async () => {
+            const validation = await WhatsAppValidator.validateSticker(animation(Array(11).fill(1000)))
+            assert.ok(validation.errors.some((error) => error.includes('Animation duration')))
+        })
+
+        it('should reject frames shorter than 8ms', async () => {
+            const validation = await WhatsAppValidator.validateSticker(animation([100, 4, 100]))
+            assert.ok(validation.errors.some((error) => error.includes('minimum frame duration')))
+        })
+    })
+})